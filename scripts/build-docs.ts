@@ -0,0 +1,788 @@
+#!/usr/bin/env bun
+/**
+ * Build a static documentation site from the expertise files, so people can
+ * read the same standards the AI tools serve.
+ *
+ * Usage:
+ *   bun scripts/build-docs.ts                  # Renders content/ into site/
+ *   bun scripts/build-docs.ts --content dir --out dir
+ *
+ * Every page is written as HTML and as Markdown: an index of domains, then
+ * per domain an overview and one page per section. Checkpoints, categories
+ * and quality checks get anchors named after their IDs (e.g.
+ * site/readme/checkpoints.html#installation), and examples are shown as
+ * bad/good diffs.
+ *
+ * Files are loaded the same way the server loads them, with `extends`
+ * merged and older schema versions migrated. Files that fail validation are
+ * reported and left out.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, resolve } from "node:path";
+import {
+	getAllExpertiseContent,
+	listExpertiseFiles,
+	validationErrors,
+} from "../src/loader";
+import { createExpertiseStore } from "../src/store";
+import type { ExpertiseContent, RubricLevel } from "../src/types";
+import { getLocale } from "../src/types";
+
+const COLORS = {
+	red: "\x1b[31m",
+	green: "\x1b[32m",
+	yellow: "\x1b[33m",
+	blue: "\x1b[34m",
+	reset: "\x1b[0m",
+	bold: "\x1b[1m",
+};
+
+function log(color: keyof typeof COLORS, message: string) {
+	console.log(`${COLORS[color]}${message}${COLORS.reset}`);
+}
+
+function fail(message: string): never {
+	log("red", `Error: ${message}`);
+	process.exit(1);
+}
+
+// ============================================================================
+// Page model
+// Pages are built once as blocks, then rendered to both HTML and Markdown.
+// ============================================================================
+
+/**
+ * A link to another page, relative to the current one and without extension
+ * (e.g. "../index", "checkpoints#installation").
+ */
+interface Link {
+	text: string;
+	page: string;
+	anchor?: string;
+}
+
+/** Inline text: plain, or a run of plain, strong and linked parts */
+type Text = string | Array<string | { strong: string } | { link: Link }>;
+
+type Block =
+	| { type: "heading"; level: 1 | 2 | 3; text: string; id?: string }
+	| { type: "paragraph"; text: Text; emphasis?: boolean }
+	| { type: "list"; label?: string; items: Text[] }
+	| { type: "example"; bad?: string; good?: string; explanation?: string }
+	| { type: "table"; header: string[]; rows: Text[][] };
+
+interface Page {
+	/** Output path without extension, relative to the site root */
+	path: string;
+	title: string;
+	lang: string;
+	/** Links shown above the content */
+	nav: Link[];
+	blocks: Block[];
+	/** Shown in the footer */
+	source?: string;
+}
+
+// ============================================================================
+// Building pages
+// ============================================================================
+
+/**
+ * A domain section with its own page. `build` returns undefined when the
+ * domain doesn't have the section.
+ */
+interface Section {
+	page: string;
+	title: string;
+	build(content: ExpertiseContent): Block[] | undefined;
+}
+
+const SECTIONS: Section[] = [
+	{
+		page: "principles",
+		title: "Principles",
+		build: (content) =>
+			content.principles.flatMap((p): Block[] => [
+				{ type: "heading", level: 2, text: p.name, id: slug(p.name) },
+				...optional(p.description, (text) => ({ type: "paragraph", text })),
+				{ type: "list", items: p.guidelines },
+				...(p.examples ?? []).map((ex): Block => ({ type: "example", ...ex })),
+			]),
+	},
+	{
+		page: "checkpoints",
+		title: "Checkpoints",
+		build: (content) =>
+			content.checkpoints.flatMap((cp): Block[] => [
+				{ type: "heading", level: 2, text: cp.name, id: cp.id },
+				{ type: "paragraph", text: cp.purpose, emphasis: true },
+				...optional(cp.categories, (ids) => ({
+					type: "paragraph",
+					text: [
+						{ strong: "Applies to:" },
+						" ",
+						...joinLinks(
+							ids.map((id) => ({
+								text: categoryName(content, id),
+								page: "categories",
+								anchor: id,
+							})),
+						),
+					],
+				})),
+				{
+					type: "list",
+					label: "What indicates presence",
+					items: cp.whatIndicatesPresence,
+				},
+				...optional(nonEmpty(cp.commonProblems), (items) => ({
+					type: "list",
+					label: "Common problems",
+					items,
+				})),
+				...optional(nonEmpty(cp.clarifyingQuestions), (items) => ({
+					type: "list",
+					label: "Questions to ask if it seems missing",
+					items,
+				})),
+				...(cp.examplePoor || cp.exampleGood
+					? [
+							{
+								type: "example",
+								bad: cp.examplePoor,
+								good: cp.exampleGood,
+							} satisfies Block,
+						]
+					: []),
+			]),
+	},
+	{
+		page: "categories",
+		title: "Categories",
+		build: (content) =>
+			nonEmpty(content.categories)?.flatMap((cat): Block[] => [
+				{ type: "heading", level: 2, text: cat.name, id: cat.id },
+				{ type: "paragraph", text: cat.description },
+				{ type: "list", label: "Indicators", items: cat.indicators },
+				{ type: "list", label: "Considerations", items: cat.considerations },
+				...optional(nonEmpty(cat.commonPatterns), (items) => ({
+					type: "list",
+					label: "Common patterns",
+					items,
+				})),
+			]),
+	},
+	{
+		page: "quality-checks",
+		title: "Quality Checks",
+		build: ({ qualityChecks }) =>
+			qualityChecks && Object.keys(qualityChecks).length > 0
+				? Object.entries(qualityChecks).flatMap(([key, check]): Block[] => [
+						{ type: "heading", level: 2, text: humanize(key), id: key },
+						{
+							type: "paragraph",
+							text: [{ strong: "What to check:" }, ` ${check.whatToCheck}`],
+						},
+						{
+							type: "paragraph",
+							text: [{ strong: "Why it matters:" }, ` ${check.whyItMatters}`],
+						},
+						...check.examples.map((ex): Block => ({ type: "example", ...ex })),
+					])
+				: undefined,
+	},
+	{
+		page: "review-guidance",
+		title: "Review Guidance",
+		build: ({ reviewGuidance }) => [
+			...optional(reviewGuidance.purpose, (text) => ({
+				type: "paragraph",
+				text,
+			})),
+			{ type: "heading", level: 2, text: "Feedback Structure" },
+			{ type: "list", items: reviewGuidance.feedbackStructure },
+			{ type: "heading", level: 2, text: "Tone" },
+			{ type: "list", items: reviewGuidance.tone },
+			...(nonEmpty(reviewGuidance.reviewerMindset)
+				? [
+						{
+							type: "heading",
+							level: 2,
+							text: "Reviewer Mindset",
+						} satisfies Block,
+						{
+							type: "list",
+							items: reviewGuidance.reviewerMindset ?? [],
+						} satisfies Block,
+					]
+				: []),
+		],
+	},
+	{
+		page: "requirements",
+		title: "Requirements",
+		build: (content) =>
+			nonEmpty(content.requirements)?.flatMap((req): Block[] => [
+				{ type: "heading", level: 2, text: req.name, id: slug(req.name) },
+				{ type: "paragraph", text: req.description },
+				{ type: "list", label: "Applies when", items: req.triggers },
+				...optional(nonEmpty(req.caveats), (items) => ({
+					type: "list",
+					label: "Caveats",
+					items,
+				})),
+			]),
+	},
+	{
+		page: "rubric",
+		title: "Scoring Rubric",
+		build: (content) => (content.rubric ? rubricBlocks(content) : undefined),
+	},
+];
+
+function rubricBlocks(content: ExpertiseContent): Block[] {
+	const rubric = content.rubric;
+	if (!rubric) {
+		return [];
+	}
+	const { min, max, step = 1, levels } = rubric.scale;
+	const levelTable = (items: RubricLevel[]): Block => ({
+		type: "table",
+		header: ["Score", "Label", "Description"],
+		rows: [...items]
+			.sort((a, b) => b.score - a.score)
+			.map((level) => [String(level.score), level.label, level.description]),
+	});
+
+	const criterionLink = (criterion: (typeof rubric.criteria)[number]): Link =>
+		criterion.checkpoint
+			? {
+					text:
+						content.checkpoints.find((cp) => cp.id === criterion.checkpoint)
+							?.name ?? criterion.checkpoint,
+					page: "checkpoints",
+					anchor: criterion.checkpoint,
+				}
+			: {
+					text: humanize(criterion.qualityCheck ?? ""),
+					page: "quality-checks",
+					anchor: criterion.qualityCheck,
+				};
+
+	return [
+		...optional(rubric.description, (text) => ({ type: "paragraph", text })),
+		{
+			type: "paragraph",
+			text: [
+				`Each criterion is scored from ${min} to ${max} in steps of ${step}.`,
+				...(rubric.passThreshold !== undefined
+					? [
+							" A weighted mean of at least ",
+							{ strong: String(rubric.passThreshold) },
+							" passes.",
+						]
+					: []),
+			],
+		},
+		...(levels && levels.length > 0
+			? [
+					{ type: "heading", level: 2, text: "Levels" } satisfies Block,
+					levelTable(levels),
+				]
+			: []),
+		{ type: "heading", level: 2, text: "Criteria" },
+		{
+			type: "table",
+			header: ["Criterion", "Weight", "Minimum"],
+			rows: rubric.criteria.map((criterion) => [
+				[{ link: criterionLink(criterion) }],
+				String(criterion.weight ?? 1),
+				criterion.minimum !== undefined ? String(criterion.minimum) : "",
+			]),
+		},
+		...rubric.criteria.flatMap((criterion): Block[] =>
+			criterion.levels && criterion.levels.length > 0
+				? [
+						{
+							type: "heading",
+							level: 3,
+							text: `Levels for ${criterionLink(criterion).text}`,
+						},
+						levelTable(criterion.levels),
+					]
+				: [],
+		),
+	];
+}
+
+/**
+ * The overview page and one page per section the domain has.
+ */
+function domainPages(filename: string, content: ExpertiseContent): Page[] {
+	const { meta } = content;
+	const prefix = meta.toolPrefix;
+	const lang = getLocale(meta);
+	const sections = SECTIONS.flatMap((section) => {
+		const blocks = section.build(content);
+		return blocks ? [{ ...section, blocks }] : [];
+	});
+	const nav: Link[] = [
+		{ text: "All domains", page: "../index" },
+		{ text: "Overview", page: "index" },
+		...sections.map((s) => ({ text: s.title, page: s.page })),
+	];
+
+	const overview: Page = {
+		path: `${prefix}/index`,
+		title: meta.domain,
+		lang,
+		nav,
+		source: filename,
+		blocks: [
+			{ type: "heading", level: 1, text: meta.domain },
+			{ type: "paragraph", text: meta.description },
+			{
+				type: "list",
+				items: [
+					[{ strong: "Author:" }, ` ${meta.author}`],
+					...(meta.license
+						? [[{ strong: "License:" }, ` ${meta.license}`]]
+						: []),
+					...(meta.infoUrl
+						? [
+								[
+									{ strong: "More information:" },
+									" ",
+									{ link: { text: meta.infoUrl, page: meta.infoUrl } },
+								] satisfies Text,
+							]
+						: []),
+					[{ strong: "Tool prefix:" }, ` ${prefix}`],
+				] as Text[],
+			},
+			{ type: "heading", level: 2, text: "Sections" },
+			{
+				type: "list",
+				items: sections.map((s) => [{ link: { text: s.title, page: s.page } }]),
+			},
+			{ type: "heading", level: 2, text: "Core Principles" },
+			{
+				type: "list",
+				items: content.principles.map((p) => [
+					{
+						link: { text: p.name, page: "principles", anchor: slug(p.name) },
+					},
+					`: ${p.description || p.guidelines[0]}`,
+				]),
+			},
+		],
+	};
+
+	return [
+		overview,
+		...sections.map((section) => ({
+			path: `${prefix}/${section.page}`,
+			title: `${section.title} - ${meta.domain}`,
+			lang,
+			nav,
+			source: filename,
+			blocks: [
+				{ type: "heading", level: 1, text: section.title } satisfies Block,
+				...section.blocks,
+			],
+		})),
+	];
+}
+
+function indexPage(
+	domains: { filename: string; content: ExpertiseContent }[],
+): Page {
+	return {
+		path: "index",
+		title: "Expertise",
+		lang: "en",
+		nav: [],
+		blocks: [
+			{ type: "heading", level: 1, text: "Expertise" },
+			{
+				type: "paragraph",
+				text: "The standards behind this server's MCP tools, one domain per expertise file.",
+			},
+			...(domains.length > 0
+				? [
+						{
+							type: "table",
+							header: ["Domain", "Description", "Author"],
+							rows: domains.map(({ content: { meta } }) => [
+								[
+									{
+										link: {
+											text: meta.domain,
+											page: `${meta.toolPrefix}/index`,
+										},
+									},
+								],
+								meta.description,
+								meta.author,
+							]),
+						} satisfies Block,
+					]
+				: [
+						{
+							type: "paragraph",
+							text: "No expertise files loaded.",
+						} satisfies Block,
+					]),
+		],
+	};
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const STYLE = `
+body { font: 16px/1.6 system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+nav { font-size: 0.9rem; margin-bottom: 2rem; }
+nav a { margin-right: 1rem; }
+a { color: #0969da; }
+h2 { margin-top: 2.5rem; border-bottom: 1px solid #d0d7de; }
+h2 a.anchor, h3 a.anchor { visibility: hidden; text-decoration: none; margin-left: 0.4rem; }
+h2:hover a.anchor, h3:hover a.anchor { visibility: visible; }
+.label { font-weight: 600; margin-bottom: 0; }
+.label + ul { margin-top: 0.25rem; }
+.diff { margin: 1rem 0; }
+.diff pre { margin: 0; padding: 0.5rem 0.75rem; white-space: pre-wrap; font-size: 0.9rem; }
+.diff .bad { background: #ffebe9; }
+.diff .good { background: #dafbe1; }
+.diff p { margin: 0.25rem 0 0; font-style: italic; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+footer { margin-top: 3rem; font-size: 0.8rem; color: #656d76; }
+`.trim();
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function href(link: Link, extension: string): string {
+	const target = /^[a-z]+:/i.test(link.page)
+		? link.page
+		: `${link.page}.${extension}`;
+	return link.anchor ? `${target}#${link.anchor}` : target;
+}
+
+function inlineHtml(text: Text): string {
+	if (typeof text === "string") {
+		return escapeHtml(text);
+	}
+	return text
+		.map((part) => {
+			if (typeof part === "string") return escapeHtml(part);
+			if ("strong" in part)
+				return `<strong>${escapeHtml(part.strong)}</strong>`;
+			return `<a href="${escapeHtml(href(part.link, "html"))}">${escapeHtml(part.link.text)}</a>`;
+		})
+		.join("");
+}
+
+function blockHtml(block: Block): string {
+	switch (block.type) {
+		case "heading": {
+			const tag = `h${block.level}`;
+			if (!block.id) {
+				return `<${tag}>${escapeHtml(block.text)}</${tag}>`;
+			}
+			const id = escapeHtml(block.id);
+			return `<${tag} id="${id}">${escapeHtml(block.text)}<a class="anchor" href="#${id}">#</a></${tag}>`;
+		}
+		case "paragraph": {
+			const text = inlineHtml(block.text);
+			return `<p>${block.emphasis ? `<em>${text}</em>` : text}</p>`;
+		}
+		case "list": {
+			const items = block.items
+				.map((item) => `<li>${inlineHtml(item)}</li>`)
+				.join("\n");
+			const label = block.label
+				? `<p class="label">${escapeHtml(block.label)}</p>\n`
+				: "";
+			return `${label}<ul>\n${items}\n</ul>`;
+		}
+		case "example": {
+			const lines = [
+				...diffLines(block.bad, "-").map(
+					(line) => `<pre class="bad">${escapeHtml(line)}</pre>`,
+				),
+				...diffLines(block.good, "+").map(
+					(line) => `<pre class="good">${escapeHtml(line)}</pre>`,
+				),
+			];
+			if (block.explanation) {
+				lines.push(`<p>${escapeHtml(block.explanation)}</p>`);
+			}
+			return `<div class="diff">\n${lines.join("\n")}\n</div>`;
+		}
+		case "table": {
+			const header = block.header
+				.map((cell) => `<th>${escapeHtml(cell)}</th>`)
+				.join("");
+			const rows = block.rows
+				.map(
+					(row) =>
+						`<tr>${row.map((cell) => `<td>${inlineHtml(cell)}</td>`).join("")}</tr>`,
+				)
+				.join("\n");
+			return `<table>\n<thead><tr>${header}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`;
+		}
+	}
+}
+
+function renderHtml(page: Page): string {
+	const nav =
+		page.nav.length > 0
+			? `<nav>${page.nav.map((link) => `<a href="${escapeHtml(href(link, "html"))}">${escapeHtml(link.text)}</a>`).join("")}</nav>\n`
+			: "";
+	const footer = page.source
+		? `<footer>Generated from ${escapeHtml(page.source)}</footer>\n`
+		: "";
+	return `<!DOCTYPE html>
+<html lang="${escapeHtml(page.lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(page.title)}</title>
+<style>
+${STYLE}
+</style>
+</head>
+<body>
+${nav}<main>
+${page.blocks.map(blockHtml).join("\n")}
+</main>
+${footer}</body>
+</html>
+`;
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+function inlineMarkdown(text: Text): string {
+	if (typeof text === "string") {
+		return text;
+	}
+	return text
+		.map((part) => {
+			if (typeof part === "string") return part;
+			if ("strong" in part) return `**${part.strong}**`;
+			return `[${part.link.text}](${href(part.link, "md")})`;
+		})
+		.join("");
+}
+
+function tableCell(text: Text): string {
+	return inlineMarkdown(text).replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function blockMarkdown(block: Block): string {
+	switch (block.type) {
+		case "heading": {
+			const heading = `${"#".repeat(block.level)} ${block.text}`;
+			// GitHub and most renderers keep raw anchors, giving stable IDs
+			return block.id
+				? `<a id="${escapeHtml(block.id)}"></a>\n\n${heading}`
+				: heading;
+		}
+		case "paragraph": {
+			const text = inlineMarkdown(block.text);
+			return block.emphasis ? `*${text}*` : text;
+		}
+		case "list": {
+			const items = block.items.map((item) => `- ${inlineMarkdown(item)}`);
+			return block.label
+				? `**${block.label}:**\n\n${items.join("\n")}`
+				: items.join("\n");
+		}
+		case "example": {
+			const lines = [
+				...diffLines(block.bad, "-"),
+				...diffLines(block.good, "+"),
+			];
+			const fence = lines.some((line) => line.includes("```")) ? "````" : "```";
+			const diff = `${fence}diff\n${lines.join("\n")}\n${fence}`;
+			return block.explanation ? `${diff}\n\n*${block.explanation}*` : diff;
+		}
+		case "table": {
+			const header = `| ${block.header.join(" | ")} |`;
+			const divider = `|${block.header.map(() => "---").join("|")}|`;
+			const rows = block.rows.map(
+				(row) => `| ${row.map(tableCell).join(" | ")} |`,
+			);
+			return [header, divider, ...rows].join("\n");
+		}
+	}
+}
+
+function renderMarkdown(page: Page): string {
+	const parts: string[] = [];
+	if (page.nav.length > 0) {
+		parts.push(
+			page.nav.map((link) => `[${link.text}](${href(link, "md")})`).join(" · "),
+		);
+	}
+	parts.push(...page.blocks.map(blockMarkdown));
+	if (page.source) {
+		parts.push("---", `*Generated from ${page.source}*`);
+	}
+	return `${parts.join("\n\n")}\n`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Diff lines for one side of an example, each prefixed with the marker
+function diffLines(text: string | undefined, marker: "-" | "+"): string[] {
+	return text === undefined
+		? []
+		: text
+				.trimEnd()
+				.split("\n")
+				.map((line) => `${marker} ${line}`);
+}
+
+function optional<T>(
+	value: T | undefined,
+	build: (value: T) => Block,
+): Block[] {
+	return value === undefined ? [] : [build(value)];
+}
+
+function nonEmpty<T>(items: T[] | undefined): T[] | undefined {
+	return items && items.length > 0 ? items : undefined;
+}
+
+function joinLinks(links: Link[]): Array<string | { link: Link }> {
+	return links.flatMap((link, i) => (i === 0 ? [{ link }] : [", ", { link }]));
+}
+
+function categoryName(content: ExpertiseContent, id: string): string {
+	return content.categories?.find((cat) => cat.id === id)?.name ?? id;
+}
+
+/**
+ * Anchor for items identified by name ("Taste Is Balance" -> "taste-is-balance").
+ */
+function slug(text: string): string {
+	return (
+		text
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "item"
+	);
+}
+
+/**
+ * Title for a quality check key ("missingContext" -> "Missing context").
+ */
+function humanize(key: string): string {
+	const words = key
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.replace(/[_-]+/g, " ")
+		.toLowerCase();
+	return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Parse --name value flags.
+ */
+function parseFlags(args: string[]): Map<string, string> {
+	const values = new Map<string, string>();
+	for (let i = 0; i < args.length; i += 2) {
+		const arg = args[i];
+		if (!arg.startsWith("--")) {
+			fail(`Unexpected argument: ${arg}`);
+		}
+		const value = args[i + 1];
+		if (value === undefined || value.startsWith("--")) {
+			fail(`${arg} needs a value`);
+		}
+		values.set(arg.slice(2), value);
+	}
+	for (const name of values.keys()) {
+		if (name !== "content" && name !== "out") {
+			fail(`Unknown option: --${name}`);
+		}
+	}
+	return values;
+}
+
+async function main() {
+	const flags = parseFlags(process.argv.slice(2));
+	const contentDir = resolve(process.cwd(), flags.get("content") ?? "content");
+	const outDir = resolve(process.cwd(), flags.get("out") ?? "site");
+
+	log("bold", "\n📚 Building expertise docs\n");
+
+	const store = createExpertiseStore({
+		type: "filesystem",
+		directory: contentDir,
+	});
+	const files = await listExpertiseFiles(store);
+	const domains = await getAllExpertiseContent(store);
+
+	let failed = 0;
+	for (const filename of files) {
+		if (!domains.some((d) => d.filename === filename)) {
+			failed++;
+			const count = validationErrors.get(filename)?.length ?? 0;
+			log("red", `✗ ${filename} skipped: ${count} validation issue(s)`);
+		}
+	}
+
+	const source = (filename: string) =>
+		relative(process.cwd(), join(contentDir, filename));
+	const pages = [
+		indexPage(domains),
+		...domains.flatMap(({ filename, content }) =>
+			domainPages(source(filename), content),
+		),
+	];
+
+	for (const page of pages) {
+		const base = join(outDir, page.path);
+		mkdirSync(dirname(base), { recursive: true });
+		writeFileSync(`${base}.html`, renderHtml(page));
+		writeFileSync(`${base}.md`, renderMarkdown(page));
+	}
+
+	for (const { content } of domains) {
+		log(
+			"green",
+			`✓ ${content.meta.domain} → ${relative(process.cwd(), join(outDir, content.meta.toolPrefix))}/`,
+		);
+	}
+	log(
+		failed > 0 ? "yellow" : "green",
+		`\nWrote ${pages.length} pages (HTML and Markdown) to ${relative(process.cwd(), outDir) || "."}/`,
+	);
+	if (failed > 0) {
+		log("yellow", "Run `bun run validate` for details on skipped files.");
+		process.exit(1);
+	}
+}
+
+main().catch((error) => {
+	fail(error instanceof Error ? error.message : String(error));
+});
@@ -0,0 +1,166 @@
+#!/usr/bin/env bun
+/**
+ * Compare two versions of an expertise file by checkpoint IDs, quality check
+ * keys and names rather than lines, and print a changelog that flags changes
+ * breaking clients.
+ *
+ * Usage:
+ *   bun scripts/diff-expertise.ts content/readme.yaml            # HEAD vs working copy
+ *   bun scripts/diff-expertise.ts main:content/readme.yaml content/readme.yaml
+ *   bun scripts/diff-expertise.ts old.yaml new.yaml --format json
+ *
+ * Options:
+ *   --format <format>    markdown (default) or json
+ *   --fail-on-breaking   Exit 2 if any change breaks clients, for CI
+ *
+ * A version is a file path or <rev>:<path> to read it from git, with the path
+ * relative to the current directory. Given one version, it is compared with
+ * the same file at HEAD. Files named in `extends` are read from the same
+ * directory (or revision) as the file.
+ */
+
+import { execFileSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { diffExpertise, formatChangelog } from "../src/diff";
+import { resolveExtends } from "../src/inheritance";
+import { parseExpertise } from "../src/migrations";
+import { type ExpertiseContent, ExpertiseContentSchema } from "../src/types";
+
+const COLORS = {
+	red: "\x1b[31m",
+	reset: "\x1b[0m",
+};
+
+function fail(message: string): never {
+	console.error(`${COLORS.red}Error: ${message}${COLORS.reset}`);
+	process.exit(1);
+}
+
+const FORMATS = ["markdown", "json"] as const;
+
+interface Version {
+	/** Label shown in errors */
+	label: string;
+	/** Read a file relative to this version's directory */
+	read: (path: string) => string | undefined;
+	path: string;
+}
+
+/**
+ * Parse "path" or "rev:path" into a version of the file.
+ */
+function parseVersion(spec: string): Version {
+	const match = spec.match(/^([^:]+):(.+)$/);
+	if (existsSync(spec) || !match) {
+		return {
+			label: spec,
+			path: spec,
+			read: (path) =>
+				existsSync(path) ? readFileSync(path, "utf-8") : undefined,
+		};
+	}
+	const [, rev, path] = match;
+	return { label: spec, path, read: (file) => readFromGit(rev, file) };
+}
+
+function readFromGit(rev: string, path: string): string | undefined {
+	// "./" makes git resolve the path from the current directory
+	const relativePath = path.startsWith("./") ? path : `./${path}`;
+	try {
+		return execFileSync("git", ["show", `${rev}:${relativePath}`], {
+			encoding: "utf-8",
+			stdio: ["ignore", "pipe", "ignore"],
+		});
+	} catch {
+		return undefined;
+	}
+}
+
+async function load(version: Version): Promise<ExpertiseContent> {
+	const text = version.read(version.path);
+	if (text === undefined) {
+		fail(`${version.label} not found`);
+	}
+
+	let data: unknown;
+	try {
+		data = parseExpertise(text, version.path);
+		data = await resolveExtends(version.path, data, async (base) => {
+			const basePath = join(dirname(version.path), base);
+			const baseText = version.read(basePath);
+			return baseText === undefined
+				? undefined
+				: parseExpertise(baseText, base);
+		});
+	} catch (error) {
+		fail(
+			`${version.label}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	const result = ExpertiseContentSchema.safeParse(data);
+	if (!result.success) {
+		fail(
+			`${version.label} is not valid expertise (${result.error.issues.length} issue(s)). Run \`bun run validate\` on it for details.`,
+		);
+	}
+	return result.data;
+}
+
+function parseArgs(args: string[]) {
+	const specs: string[] = [];
+	let format: (typeof FORMATS)[number] = "markdown";
+	let failOnBreaking = false;
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === "--fail-on-breaking") {
+			failOnBreaking = true;
+		} else if (arg === "--format") {
+			const value = FORMATS.find((f) => f === args[i + 1]);
+			if (!value) {
+				fail(`--format must be one of: ${FORMATS.join(", ")}`);
+			}
+			format = value;
+			i++;
+		} else if (arg.startsWith("--")) {
+			fail(`Unexpected argument: ${arg}`);
+		} else {
+			specs.push(arg);
+		}
+	}
+	if (specs.length === 0 || specs.length > 2) {
+		fail(
+			"Usage: bun scripts/diff-expertise.ts [old] new [--format markdown|json] [--fail-on-breaking]",
+		);
+	}
+	// One version: compare it with the same file at HEAD
+	if (specs.length === 1) {
+		specs.unshift(`HEAD:${specs[0]}`);
+	}
+	return { specs, format, failOnBreaking };
+}
+
+async function main() {
+	const { specs, format, failOnBreaking } = parseArgs(process.argv.slice(2));
+	const [before, after] = await Promise.all(
+		specs.map((spec) => load(parseVersion(spec))),
+	);
+	const diff = diffExpertise(before, after);
+
+	if (format === "json") {
+		console.log(
+			JSON.stringify({ from: specs[0], to: specs[1], ...diff }, null, 2),
+		);
+	} else {
+		console.log(formatChangelog(diff));
+	}
+
+	if (failOnBreaking && diff.breaking) {
+		process.exit(2);
+	}
+}
+
+main().catch((error) => {
+	fail(error instanceof Error ? error.message : String(error));
+});
@@ -0,0 +1,148 @@
+#!/usr/bin/env bun
+/**
+ * Export expertise files as rules for assistants that don't use MCP, so the
+ * YAML stays the single source of truth for every assistant.
+ *
+ * Usage:
+ *   bun scripts/export-rules.ts --format cursor-rules     # Every domain in content/
+ *   bun scripts/export-rules.ts --format skill --domain readme --locale de
+ *
+ * Options:
+ *   --format <format>   claude-md, cursor-rules, skill, system-prompt, or all
+ *   --domain <prefix>   Only export the domain with this tool prefix
+ *   --locale <locale>   Export a translation (default: each file's own language)
+ *   --content <dir>     Expertise directory (default content/)
+ *   --out <dir>         Output directory (default export/)
+ *
+ * Files are written to <out>/<toolPrefix>/ at the path the assistant expects
+ * them relative to a project root, e.g. export/readme/.cursor/rules/readme.mdc.
+ * Copy them into the projects that should follow the guidance.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, resolve } from "node:path";
+import { exportRules } from "../src/export";
+import {
+	getAllExpertiseContent,
+	listExpertiseFiles,
+	loadExpertiseFile,
+} from "../src/loader";
+import { createExpertiseStore } from "../src/store";
+import { EXPORT_FORMATS, type ExportFormat } from "../src/types";
+
+const COLORS = {
+	red: "\x1b[31m",
+	green: "\x1b[32m",
+	yellow: "\x1b[33m",
+	blue: "\x1b[34m",
+	reset: "\x1b[0m",
+	bold: "\x1b[1m",
+};
+
+function log(color: keyof typeof COLORS, message: string) {
+	console.log(`${COLORS[color]}${message}${COLORS.reset}`);
+}
+
+function fail(message: string): never {
+	log("red", `Error: ${message}`);
+	process.exit(1);
+}
+
+const OPTIONS = ["format", "domain", "locale", "content", "out"];
+
+/**
+ * Parse --name value flags.
+ */
+function parseFlags(args: string[]): Map<string, string> {
+	const values = new Map<string, string>();
+	for (let i = 0; i < args.length; i += 2) {
+		const arg = args[i];
+		const name = arg.slice(2);
+		if (!arg.startsWith("--") || !OPTIONS.includes(name)) {
+			fail(`Unexpected argument: ${arg}`);
+		}
+		const value = args[i + 1];
+		if (value === undefined || value.startsWith("--")) {
+			fail(`${arg} needs a value`);
+		}
+		values.set(name, value);
+	}
+	return values;
+}
+
+function parseFormats(value: string | undefined): ExportFormat[] {
+	if (!value) {
+		fail(`--format is required: ${[...EXPORT_FORMATS, "all"].join(", ")}`);
+	}
+	if (value === "all") {
+		return [...EXPORT_FORMATS];
+	}
+	const format = EXPORT_FORMATS.find((f) => f === value);
+	if (!format) {
+		fail(
+			`Unknown format "${value}". Available: ${[...EXPORT_FORMATS, "all"].join(", ")}`,
+		);
+	}
+	return [format];
+}
+
+async function main() {
+	const flags = parseFlags(process.argv.slice(2));
+	const formats = parseFormats(flags.get("format"));
+	const domain = flags.get("domain");
+	const locale = flags.get("locale");
+	const contentDir = resolve(process.cwd(), flags.get("content") ?? "content");
+	const outDir = resolve(process.cwd(), flags.get("out") ?? "export");
+
+	log("bold", "\n📦 Exporting expertise rules\n");
+
+	const store = createExpertiseStore({
+		type: "filesystem",
+		directory: contentDir,
+	});
+	const files = await listExpertiseFiles(store);
+	let domains = await getAllExpertiseContent(store);
+	if (domain) {
+		domains = domains.filter((d) => d.content.meta.toolPrefix === domain);
+		if (domains.length === 0) {
+			fail(`No valid domain with tool prefix "${domain}" in ${contentDir}`);
+		}
+	}
+
+	let written = 0;
+	for (const { filename, content } of domains) {
+		const source = locale
+			? await loadExpertiseFile(store, filename, locale)
+			: content;
+		if (!source) {
+			fail(`Could not load ${filename}`);
+		}
+		const dir = join(outDir, source.meta.toolPrefix);
+		for (const format of formats) {
+			for (const file of exportRules(source, format).files) {
+				const path = join(dir, file.path);
+				mkdirSync(dirname(path), { recursive: true });
+				writeFileSync(path, file.content);
+				written++;
+				log("green", `✓ ${relative(process.cwd(), path)}`);
+			}
+		}
+	}
+
+	const skipped = domain ? 0 : files.length - domains.length;
+	log(
+		skipped > 0 ? "yellow" : "green",
+		`\nWrote ${written} file(s) for ${domains.length} domain(s)`,
+	);
+	if (skipped > 0) {
+		log(
+			"yellow",
+			`${skipped} file(s) failed validation and were skipped. Run \`bun run validate\` for details.`,
+		);
+		process.exit(1);
+	}
+}
+
+main().catch((error) => {
+	fail(error instanceof Error ? error.message : String(error));
+});
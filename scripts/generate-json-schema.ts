@@ -0,0 +1,175 @@
+#!/usr/bin/env bun
+/**
+ * Generate a JSON Schema for expertise YAML files from ExpertiseContentSchema,
+ * with descriptions taken from the doc comments in src/types.ts. YAML language
+ * servers use it to autocomplete fields and flag errors while editing.
+ *
+ * Usage:
+ *   bun scripts/generate-json-schema.ts           # Writes schema/expertise.schema.json
+ *   bun scripts/generate-json-schema.ts --check   # Fails if the file is out of date
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import ts from "typescript";
+import { z } from "zod";
+import { SUPPORTED_VERSIONS } from "../src/migrations";
+import { ExpertiseContentSchema, SCHEMA_VERSION } from "../src/types";
+
+const COLORS = {
+	red: "\x1b[31m",
+	green: "\x1b[32m",
+	yellow: "\x1b[33m",
+	blue: "\x1b[34m",
+	reset: "\x1b[0m",
+	bold: "\x1b[1m",
+};
+
+function log(color: keyof typeof COLORS, message: string) {
+	console.log(`${COLORS[color]}${message}${COLORS.reset}`);
+}
+
+const TYPES_PATH = resolve(process.cwd(), "src/types.ts");
+const OUTPUT_PATH = resolve(process.cwd(), "schema/expertise.schema.json");
+
+type JsonSchema = {
+	description?: string;
+	properties?: Record<string, JsonSchema>;
+	items?: JsonSchema;
+	additionalProperties?: JsonSchema | boolean;
+	[key: string]: unknown;
+};
+
+/**
+ * Copy doc comments from a TypeScript type onto the matching JSON Schema,
+ * following object properties, array items and record values. Descriptions
+ * already in the schema are kept.
+ */
+function addDescriptions(
+	schema: JsonSchema,
+	type: ts.Type,
+	checker: ts.TypeChecker,
+): void {
+	const target = checker.getNonNullableType(type);
+
+	for (const [key, property] of Object.entries(schema.properties ?? {})) {
+		const symbol = target.getProperty(key);
+		if (!symbol) continue;
+		const propertyType = checker.getTypeOfSymbol(symbol);
+		property.description ??=
+			documentation(symbol, checker) ??
+			typeDocumentation(propertyType, checker);
+		addDescriptions(property, propertyType, checker);
+	}
+
+	if (schema.items && checker.isArrayType(target)) {
+		const [element] = checker.getTypeArguments(target as ts.TypeReference);
+		schema.items.description ??= typeDocumentation(element, checker);
+		addDescriptions(schema.items, element, checker);
+	}
+
+	if (typeof schema.additionalProperties === "object") {
+		const [index] = checker.getIndexInfosOfType(target);
+		if (index) {
+			schema.additionalProperties.description ??= typeDocumentation(
+				index.type,
+				checker,
+			);
+			addDescriptions(schema.additionalProperties, index.type, checker);
+		}
+	}
+}
+
+function documentation(
+	symbol: ts.Symbol,
+	checker: ts.TypeChecker,
+): string | undefined {
+	const text = ts.displayPartsToString(symbol.getDocumentationComment(checker));
+	return text.trim() || undefined;
+}
+
+// Doc comment of a named type (e.g. Principle), for items and record values
+function typeDocumentation(
+	type: ts.Type,
+	checker: ts.TypeChecker,
+): string | undefined {
+	const target = checker.getNonNullableType(type);
+	const element = checker.isArrayType(target)
+		? checker.getTypeArguments(target as ts.TypeReference)[0]
+		: target;
+	const symbol = element.aliasSymbol ?? element.getSymbol();
+	return symbol && symbol.flags & ts.SymbolFlags.Interface
+		? documentation(symbol, checker)
+		: undefined;
+}
+
+/**
+ * Build the schema document.
+ */
+function generateSchema(): string {
+	const program = ts.createProgram([TYPES_PATH], {
+		strict: true,
+		skipLibCheck: true,
+		noEmit: true,
+	});
+	const checker = program.getTypeChecker();
+	const sourceFile = program.getSourceFile(TYPES_PATH);
+	const module = sourceFile && checker.getSymbolAtLocation(sourceFile);
+	const content =
+		module &&
+		checker
+			.getExportsOfModule(module)
+			.find((symbol) => symbol.name === "ExpertiseContent");
+	if (!content) {
+		throw new Error(`ExpertiseContent not found in ${TYPES_PATH}`);
+	}
+
+	const schema = z.toJSONSchema(ExpertiseContentSchema, {
+		io: "input",
+	}) as JsonSchema;
+	addDescriptions(schema, checker.getDeclaredTypeOfSymbol(content), checker);
+
+	// The runtime schema checks files after migration, so it only allows the
+	// current version. Editors see files before migration: allow every version
+	// that still loads.
+	const version = schema.properties?.version;
+	if (version) {
+		delete version.const;
+		version.enum = SUPPORTED_VERSIONS;
+	}
+
+	const { $schema, ...rest } = schema;
+	const document = {
+		$schema,
+		$comment: `Generated from src/types.ts by scripts/generate-json-schema.ts (schema version ${SCHEMA_VERSION}). Do not edit; run \`bun run schema\`.`,
+		title: "Expertise file",
+		...rest,
+	};
+	return `${JSON.stringify(document, null, "\t")}\n`;
+}
+
+function main() {
+	const check = process.argv.includes("--check");
+	const schema = generateSchema();
+
+	if (check) {
+		const current = existsSync(OUTPUT_PATH)
+			? readFileSync(OUTPUT_PATH, "utf-8")
+			: "";
+		if (current !== schema) {
+			log(
+				"red",
+				"schema/expertise.schema.json is out of date - run `bun run schema`",
+			);
+			process.exit(1);
+		}
+		log("green", "schema/expertise.schema.json is up to date");
+		return;
+	}
+
+	mkdirSync(dirname(OUTPUT_PATH), { recursive: true });
+	writeFileSync(OUTPUT_PATH, schema);
+	log("green", `Wrote ${OUTPUT_PATH}`);
+}
+
+main();
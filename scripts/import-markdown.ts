@@ -0,0 +1,1108 @@
+#!/usr/bin/env bun
+/**
+ * Import a Markdown style guide as a draft expertise file. Headings become
+ * principles, checkpoints and quality checks, bullet lists their guidelines,
+ * and "Bad:"/"Good:" blocks their examples. Anything the importer had to
+ * guess is marked with a "# REVIEW:" comment, and missing text is left as a
+ * [REPLACE: ...] placeholder.
+ *
+ * Usage:
+ *   bun scripts/import-markdown.ts guide.md
+ *   bun scripts/import-markdown.ts guide.md --author "Jane Doe" --out content/style.yaml
+ *
+ * Options:
+ *   --domain <name>     Domain name (default: the guide's first # heading)
+ *   --author <name>     Author (default: a placeholder)
+ *   --prefix <prefix>   Tool prefix (default: derived from the domain)
+ *   --out <path>        Output file (default content/<prefix>.yaml)
+ *   --config <path>     Heading conventions (default expertise-import.json, if present)
+ *   --force             Overwrite an existing file
+ *
+ * Conventions are case-insensitive regular expressions. A top-level heading
+ * containing a section's words (e.g. "## Review Checklist") turns each
+ * heading below it into an item of that section; other headings become
+ * principles. See ImportConfigSchema for every setting, e.g.
+ * { "sections": { "checkpoints": ["must have"] } } in expertise-import.json.
+ *
+ * The draft is checked against the schema after it is written. Run
+ * `bun run validate` once the REVIEW comments and placeholders are resolved.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, relative, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import YAML from "yaml";
+import { z } from "zod";
+import {
+	formatDiagnostic,
+	issueDiagnostics,
+	parseSource,
+} from "../src/diagnostics";
+import type {
+	Checkpoint,
+	ExpertiseContent,
+	Principle,
+	QualityCheckCategory,
+	ReviewGuidance,
+} from "../src/types";
+import {
+	ExpertiseContentSchema,
+	ExpertiseMetaSchema,
+	SCHEMA_VERSION,
+} from "../src/types";
+
+const COLORS = {
+	red: "\x1b[31m",
+	green: "\x1b[32m",
+	yellow: "\x1b[33m",
+	blue: "\x1b[34m",
+	reset: "\x1b[0m",
+	bold: "\x1b[1m",
+};
+
+function log(color: keyof typeof COLORS, message: string) {
+	console.log(`${COLORS[color]}${message}${COLORS.reset}`);
+}
+
+function fail(message: string): never {
+	log("red", `Error: ${message}`);
+	process.exit(1);
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_CONFIG_FILE = "expertise-import.json";
+
+// The JSON Schema drafts point editors to, found next to this script
+const SCHEMA_FILE = resolve(
+	dirname(fileURLToPath(import.meta.url)),
+	"../schema/expertise.schema.json",
+);
+
+const Patterns = z.array(
+	z.string().refine((pattern) => {
+		try {
+			new RegExp(pattern, "i");
+			return true;
+		} catch {
+			return false;
+		}
+	}, "Invalid regular expression"),
+);
+
+/**
+ * Heading and label conventions. Every list replaces its default.
+ */
+const ImportConfigSchema = z
+	.object({
+		/** Words in headings whose subheadings become items of a section, checked in this order */
+		sections: z
+			.object({
+				checkpoints: Patterns.default([
+					"checklist",
+					"checkpoints?",
+					"required (sections|elements)",
+					"must (have|include)",
+				]),
+				qualityChecks: Patterns.default([
+					"quality( checks?)?",
+					"common (mistakes|problems|issues)",
+					"anti-?patterns",
+					"pitfalls",
+				]),
+				review: Patterns.default(["review( guidance)?", "feedback"]),
+				principles: Patterns.default([
+					"principles?",
+					"guidelines?",
+					"rules",
+					"best practices",
+				]),
+			})
+			.strict()
+			.prefault({}),
+		/** What to do with top-level headings that match no section */
+		unmatched: z.enum(["principles", "skip"]).default("principles"),
+		/** Labels (the text before a colon) that start example parts */
+		examples: z
+			.object({
+				bad: Patterns.default([
+					"bad",
+					"don'?t",
+					"avoid",
+					"incorrect",
+					"wrong",
+					"before",
+					"poor",
+				]),
+				good: Patterns.default([
+					"good",
+					"do",
+					"correct",
+					"better",
+					"after",
+					"prefer",
+				]),
+				explanation: Patterns.default(["why", "explanation", "because"]),
+			})
+			.strict()
+			.prefault({}),
+		/** Labels of checkpoint lists; unlabelled bullets indicate presence */
+		checkpointLists: z
+			.object({
+				commonProblems: Patterns.default([
+					".*(problems?|mistakes?|pitfalls?|issues?).*",
+				]),
+				clarifyingQuestions: Patterns.default([".*questions?.*", "ask.*"]),
+				whatIndicatesPresence: Patterns.default([
+					".*(look for|indicat|present|signs?).*",
+				]),
+			})
+			.strict()
+			.prefault({}),
+	})
+	.strict();
+
+type ImportConfig = z.infer<typeof ImportConfigSchema>;
+
+/**
+ * Load conventions from the given path, or from expertise-import.json in the
+ * working directory when it exists.
+ */
+function loadConfig(configPath: string | undefined): ImportConfig {
+	const path = resolve(process.cwd(), configPath ?? DEFAULT_CONFIG_FILE);
+	if (!existsSync(path)) {
+		if (configPath) {
+			fail(`Import config not found: ${path}`);
+		}
+		return ImportConfigSchema.parse({});
+	}
+
+	let data: unknown;
+	try {
+		data = JSON.parse(readFileSync(path, "utf-8"));
+	} catch (error) {
+		fail(`Invalid import config ${path}: ${(error as Error).message}`);
+	}
+	const parsed = ImportConfigSchema.safeParse(data);
+	if (!parsed.success) {
+		const issue = parsed.error.issues[0];
+		fail(
+			`Invalid import config at ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+		);
+	}
+	return parsed.data;
+}
+
+// Labels must match whole; heading patterns only need to appear in the heading
+function matches(patterns: string[], text: string): boolean {
+	return patterns.some((pattern) =>
+		new RegExp(`^(?:${pattern})$`, "i").test(text.trim()),
+	);
+}
+
+function mentions(patterns: string[], text: string): boolean {
+	return patterns.some((pattern) =>
+		new RegExp(`\\b(?:${pattern})\\b`, "i").test(text),
+	);
+}
+
+// ============================================================================
+// Markdown parsing
+// Just enough Markdown for style guides: headings, paragraphs, nested lists
+// and fenced code. Tables, quotes and HTML are read as plain paragraphs.
+// ============================================================================
+
+interface MdItem {
+	text: string;
+	children: MdItem[];
+}
+
+type MdBlock =
+	| { type: "paragraph"; text: string }
+	| { type: "list"; items: MdItem[] }
+	| { type: "code"; text: string };
+
+interface MdSection {
+	title: string;
+	level: number;
+	blocks: MdBlock[];
+	children: MdSection[];
+}
+
+function parseMarkdown(text: string): MdSection {
+	const root: MdSection = { title: "", level: 0, blocks: [], children: [] };
+	const sections = [root];
+	const lines = text.replace(/\r\n?/g, "\n").split("\n");
+
+	let paragraph: string[] = [];
+	// Open list items by indent, outermost first
+	let listStack: { indent: number; item: MdItem }[] = [];
+	let list: MdItem[] | undefined;
+
+	const current = () => sections[sections.length - 1];
+	const endParagraph = () => {
+		if (paragraph.length > 0) {
+			// Lines are kept apart so "Bad:" and "Good:" lines can be told apart
+			current().blocks.push({ type: "paragraph", text: paragraph.join("\n") });
+			paragraph = [];
+		}
+	};
+	const endList = () => {
+		list = undefined;
+		listStack = [];
+	};
+
+	let i = 0;
+	// Skip YAML frontmatter
+	if (lines[0]?.trim() === "---") {
+		const end = lines.indexOf("---", 1);
+		if (end > 0) i = end + 1;
+	}
+
+	for (; i < lines.length; i++) {
+		const line = lines[i];
+
+		const fence = line.match(/^\s*(`{3,}|~{3,})/);
+		if (fence) {
+			endParagraph();
+			endList();
+			const code: string[] = [];
+			for (i++; i < lines.length; i++) {
+				if (lines[i].trim().startsWith(fence[1])) break;
+				code.push(lines[i]);
+			}
+			current().blocks.push({ type: "code", text: code.join("\n") });
+			continue;
+		}
+
+		const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+		if (heading) {
+			endParagraph();
+			endList();
+			const section: MdSection = {
+				title: inline(heading[2]),
+				level: heading[1].length,
+				blocks: [],
+				children: [],
+			};
+			while (current().level >= section.level) sections.pop();
+			current().children.push(section);
+			sections.push(section);
+			continue;
+		}
+
+		const bullet = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+		if (bullet) {
+			endParagraph();
+			const indent = bullet[1].replace(/\t/g, "    ").length;
+			const item: MdItem = { text: inline(bullet[2]), children: [] };
+			while (
+				listStack.length > 0 &&
+				listStack[listStack.length - 1].indent >= indent
+			) {
+				listStack.pop();
+			}
+			const parent = listStack[listStack.length - 1];
+			if (parent) {
+				parent.item.children.push(item);
+			} else {
+				if (!list) {
+					list = [];
+					current().blocks.push({ type: "list", items: list });
+				}
+				list.push(item);
+			}
+			listStack.push({ indent, item });
+			continue;
+		}
+
+		if (line.trim() === "") {
+			endParagraph();
+			continue;
+		}
+
+		// Horizontal rules separate nothing we keep
+		if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+			endParagraph();
+			endList();
+			continue;
+		}
+
+		// Indented text continues the open list item
+		const open = listStack[listStack.length - 1];
+		if (open && /^\s+/.test(line) && paragraph.length === 0) {
+			open.item.text = `${open.item.text} ${inline(line)}`;
+			continue;
+		}
+
+		endList();
+		paragraph.push(inline(line.replace(/^\s*>\s?/, "")));
+	}
+	endParagraph();
+	return root;
+}
+
+// Trim and collapse whitespace; links keep their text and target
+function inline(text: string): string {
+	return text
+		.replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+// ============================================================================
+// Reading section bodies
+// ============================================================================
+
+interface Example {
+	bad?: string;
+	good?: string;
+	explanation?: string;
+}
+
+/**
+ * A section's text sorted into what the mapping needs.
+ */
+interface Body {
+	paragraphs: string[];
+	/** Bullets with the label they were listed under, if any */
+	bullets: { text: string; label?: string }[];
+	examples: Example[];
+	/** Bad or good parts without a partner */
+	unpaired: string[];
+}
+
+type Entry =
+	| { kind: "text"; text: string }
+	| { kind: "item"; text: string; children: MdItem[]; label?: string }
+	| { kind: "code"; text: string };
+
+/**
+ * Sort a section's blocks, and those of its subsections, into paragraphs,
+ * bullets and examples. Subsection titles label their bullets.
+ */
+function readBody(section: MdSection, config: ImportConfig): Body {
+	const body: Body = {
+		paragraphs: [],
+		bullets: [],
+		examples: [],
+		unpaired: [],
+	};
+	let example: Example | undefined;
+	let awaiting: keyof Example | undefined;
+
+	const flush = () => {
+		if (example?.bad !== undefined && example.good !== undefined) {
+			body.examples.push(example);
+		} else if (example?.bad !== undefined || example?.good !== undefined) {
+			body.unpaired.push((example.bad ?? example.good) as string);
+		}
+		example = undefined;
+		awaiting = undefined;
+	};
+
+	const setPart = (role: keyof Example, text: string) => {
+		if (role === "explanation") {
+			const target = example ?? body.examples[body.examples.length - 1];
+			if (target) target.explanation = text;
+			return;
+		}
+		if (example?.[role] !== undefined) flush();
+		example ??= {};
+		example[role] = text;
+	};
+
+	const visit = (entries: Entry[]) => {
+		entries.forEach((entry, index) => {
+			if (entry.kind === "code") {
+				if (awaiting) {
+					setPart(awaiting, entry.text);
+					awaiting = undefined;
+				} else {
+					body.paragraphs.push(entry.text);
+				}
+				return;
+			}
+
+			const part = exampleLabel(entry.text, config);
+			// "Why:" outside an example is ordinary text (e.g. why a check matters)
+			const isPart =
+				part &&
+				(part.role !== "explanation" || example || body.examples.length > 0);
+			if (part && isPart) {
+				if (part.rest) {
+					setPart(part.role, part.rest);
+				} else {
+					awaiting = part.role;
+				}
+			} else if (awaiting) {
+				setPart(awaiting, entry.text);
+				awaiting = undefined;
+			} else if (entry.kind === "text") {
+				const next = entries[index + 1];
+				// "Look for:" introducing a list labels it
+				if (!entry.text.endsWith(":") || next?.kind !== "item") {
+					body.paragraphs.push(entry.text);
+				}
+			} else {
+				body.bullets.push({ text: entry.text, label: entry.label });
+			}
+
+			if (entry.kind === "item" && entry.children.length > 0) {
+				const label = entry.text.endsWith(":")
+					? entry.text.slice(0, -1)
+					: entry.label;
+				visit(entry.children.map((child) => itemEntry(child, label)));
+			}
+		});
+	};
+
+	const blockEntries = (blocks: MdBlock[], label?: string): Entry[] =>
+		blocks.flatMap((block, index): Entry[] => {
+			if (block.type === "code") {
+				return [{ kind: "code", text: block.text }];
+			}
+			if (block.type === "paragraph") {
+				return splitParagraph(block.text, config).map((text) => ({
+					kind: "text",
+					text,
+				}));
+			}
+			const previous = blocks[index - 1];
+			const listLabel =
+				previous?.type === "paragraph" && previous.text.endsWith(":")
+					? previous.text.slice(0, -1).replace(/\n/g, " ")
+					: label;
+			return block.items.map((item) => itemEntry(item, listLabel));
+		});
+
+	visit(blockEntries(section.blocks));
+	const visitChildren = (parent: MdSection) => {
+		for (const child of parent.children) {
+			flush();
+			visit(blockEntries(child.blocks, child.title));
+			visitChildren(child);
+		}
+	};
+	visitChildren(section);
+	flush();
+	return body;
+}
+
+/**
+ * Join a paragraph's lines, starting a new text at each example label.
+ */
+function splitParagraph(text: string, config: ImportConfig): string[] {
+	const texts: string[] = [];
+	for (const line of text.split("\n")) {
+		if (texts.length === 0 || exampleLabel(line, config)) {
+			texts.push(line);
+		} else {
+			texts[texts.length - 1] += ` ${line}`;
+		}
+	}
+	return texts;
+}
+
+function itemEntry(item: MdItem, label?: string): Entry {
+	return { kind: "item", text: item.text, children: item.children, label };
+}
+
+/**
+ * Split "Bad: text" (with optional emphasis or a leading emoji) into the
+ * example part it starts and the text after the colon.
+ */
+function exampleLabel(
+	text: string,
+	config: ImportConfig,
+): { role: keyof Example; rest: string } | undefined {
+	const match = text.match(
+		/^[*_]{0,2}([^:*_]{1,40}?)[*_]{0,2}\s*:[*_]{0,2}\s*(.*)$/,
+	);
+	if (!match) return undefined;
+	const label = match[1].replace(/^[^\p{L}]+/u, "");
+	const roles = ["bad", "good", "explanation"] as const;
+	const role = roles.find((r) => matches(config.examples[r], label));
+	return role ? { role, rest: unquote(match[2]) } : undefined;
+}
+
+function unquote(text: string): string {
+	const match = text.match(/^"(.*)"$|^“(.*)”$/);
+	return match ? (match[1] ?? match[2]) : text;
+}
+
+// ============================================================================
+// Mapping to expertise
+// ============================================================================
+
+type Kind = "principles" | "checkpoints" | "qualityChecks" | "review";
+
+/**
+ * A "# REVIEW:" comment to add above the value at `path`.
+ */
+interface Note {
+	path: (string | number)[];
+	message: string;
+}
+
+function placeholder(what: string): string {
+	return `[REPLACE: ${what}]`;
+}
+
+class Draft {
+	principles: Principle[] = [];
+	checkpoints: Checkpoint[] = [];
+	qualityChecks: Record<string, QualityCheckCategory> = {};
+	review: Partial<ReviewGuidance> = {};
+	notes: Note[] = [];
+	skipped: string[] = [];
+
+	constructor(private readonly config: ImportConfig) {}
+
+	kindOf(title: string): Kind | undefined {
+		const kinds: Kind[] = [
+			"checkpoints",
+			"qualityChecks",
+			"review",
+			"principles",
+		];
+		return kinds.find((kind) => mentions(this.config.sections[kind], title));
+	}
+
+	/**
+	 * Map a top-level section: a matching heading's subsections become items,
+	 * anything else becomes a principle (or is skipped).
+	 */
+	addSection(section: MdSection): void {
+		const kind = this.kindOf(section.title);
+		if (kind === "review") {
+			this.addReview(section);
+			return;
+		}
+		if (kind) {
+			this.addContainer(kind, section);
+			return;
+		}
+
+		// Matching subsections stand on their own
+		const own = section.children.filter((child) => !this.kindOf(child.title));
+		for (const child of section.children) {
+			if (this.kindOf(child.title)) this.addSection(child);
+		}
+		if (this.config.unmatched === "skip") {
+			this.skipped.push(section.title);
+			return;
+		}
+		const body = readBody({ ...section, children: own }, this.config);
+		if (
+			body.paragraphs.length === 0 &&
+			body.bullets.length === 0 &&
+			body.examples.length === 0
+		) {
+			return;
+		}
+		this.addPrinciple(section.title, body, "matched no section convention");
+	}
+
+	addContainer(kind: Exclude<Kind, "review">, section: MdSection): void {
+		if (section.children.length > 0) {
+			for (const child of section.children) {
+				this.addItem(kind, child.title, readBody(child, this.config));
+			}
+			return;
+		}
+
+		// Without subheadings, each bullet is an item
+		const bullets = section.blocks.flatMap((block) =>
+			block.type === "list" ? block.items : [],
+		);
+		for (const item of bullets) {
+			const body = readBody(
+				{
+					title: item.text,
+					level: section.level + 1,
+					blocks: [{ type: "list", items: item.children }],
+					children: [],
+				},
+				this.config,
+			);
+			this.addItem(kind, item.text, body, "was a bullet; give it a short name");
+		}
+	}
+
+	addItem(
+		kind: Exclude<Kind, "review">,
+		title: string,
+		body: Body,
+		note?: string,
+	): void {
+		if (kind === "principles") this.addPrinciple(title, body, note);
+		else if (kind === "checkpoints") this.addCheckpoint(title, body, note);
+		else this.addQualityCheck(title, body, note);
+	}
+
+	addPrinciple(title: string, body: Body, note?: string): void {
+		const path = ["principles", this.principles.length];
+		const [description, ...rest] = body.paragraphs;
+		let guidelines = body.bullets.map((b) => b.text);
+		if (guidelines.length === 0) {
+			guidelines = rest.length > 0 ? rest : [placeholder("Guideline")];
+			this.note(
+				[...path, "guidelines"],
+				"No bullet list; check these guidelines",
+			);
+		} else if (rest.length > 0) {
+			this.note(path, `Paragraphs not imported: ${summarize(rest)}`);
+		}
+		if (note) this.note(path, `"${title}" ${note}`);
+		this.noteUnpaired(path, body);
+
+		this.principles.push({
+			name: title,
+			...(description && { description }),
+			guidelines,
+			...(body.examples.length > 0 && {
+				examples: body.examples.map((ex) => ({
+					bad: ex.bad ?? "",
+					good: ex.good ?? "",
+					...(ex.explanation && { explanation: ex.explanation }),
+				})),
+			}),
+		});
+	}
+
+	addCheckpoint(title: string, body: Body, note?: string): void {
+		const path = ["checkpoints", this.checkpoints.length];
+		const lists = this.config.checkpointLists;
+		const labelled = (patterns: string[]) =>
+			body.bullets
+				.filter((b) => b.label !== undefined && matches(patterns, b.label))
+				.map((b) => b.text);
+		const commonProblems = labelled(lists.commonProblems);
+		const clarifyingQuestions = labelled(lists.clarifyingQuestions);
+		const whatIndicatesPresence = body.bullets
+			.filter(
+				(b) =>
+					!commonProblems.includes(b.text) &&
+					!clarifyingQuestions.includes(b.text),
+			)
+			.map((b) => b.text);
+
+		const checkpoint: Checkpoint = {
+			id: uniqueKey(
+				slugId(title),
+				this.checkpoints.map((cp) => cp.id),
+			),
+			name: title,
+			purpose: body.paragraphs[0] ?? placeholder("Why this checkpoint matters"),
+			whatIndicatesPresence:
+				whatIndicatesPresence.length > 0
+					? whatIndicatesPresence
+					: [placeholder("What indicates this is covered")],
+			commonProblems,
+			...(clarifyingQuestions.length > 0 && { clarifyingQuestions }),
+		};
+		const [example, ...more] = body.examples;
+		if (example) {
+			checkpoint.examplePoor = example.bad;
+			checkpoint.exampleGood = example.good;
+		}
+
+		if (note) this.note(path, `"${title}" ${note}`);
+		if (whatIndicatesPresence.length === 0) {
+			this.note([...path, "whatIndicatesPresence"], "No bullets found");
+		}
+		if (body.paragraphs.length > 1) {
+			this.note(
+				path,
+				`Paragraphs not imported: ${summarize(body.paragraphs.slice(1))}`,
+			);
+		}
+		if (more.length > 0) {
+			this.note(
+				[...path, "exampleGood"],
+				`${more.length} more example(s) not imported; checkpoints hold one`,
+			);
+		}
+		this.noteUnpaired(path, body);
+		this.checkpoints.push(checkpoint);
+	}
+
+	addQualityCheck(title: string, body: Body, note?: string): void {
+		const key = uniqueKey(camelKey(title), Object.keys(this.qualityChecks));
+		const path = ["qualityChecks", key];
+		const why = body.paragraphs.find((p) => /^[*_]*why\b[^:]*:/i.test(p));
+		const others = body.paragraphs.filter((p) => p !== why);
+		const bullets = body.bullets.map((b) => b.text);
+		const whatToCheck = others[0] ?? bullets.shift();
+
+		this.qualityChecks[key] = {
+			whatToCheck: whatToCheck ?? placeholder("What to look for"),
+			whyItMatters: why
+				? why.replace(/^[*_]*why\b[^:]*:[*_]*\s*/i, "")
+				: (others[1] ?? placeholder("Why this matters")),
+			examples: body.examples.map((ex) => ({
+				bad: ex.bad ?? "",
+				good: ex.good ?? "",
+				...(ex.explanation && { explanation: ex.explanation }),
+			})),
+		};
+
+		if (note) this.note(path, `"${title}" ${note}`);
+		if (!why) {
+			this.note([...path, "whyItMatters"], 'No "Why:" paragraph; check this');
+		}
+		if (bullets.length > 0) {
+			this.note(path, `Bullets not imported: ${summarize(bullets)}`);
+		}
+		this.noteUnpaired(path, body);
+	}
+
+	addReview(section: MdSection): void {
+		const review = this.review;
+		const add = (title: string, body: Body) => {
+			const field = /tone/i.test(title)
+				? "tone"
+				: /mindset/i.test(title)
+					? "reviewerMindset"
+					: "feedbackStructure";
+			review[field] = [
+				...(review[field] ?? []),
+				...body.bullets.map((b) => b.text),
+			];
+		};
+
+		const body = readBody({ ...section, children: [] }, this.config);
+		review.purpose ??= body.paragraphs[0];
+		add(section.title, body);
+		for (const child of section.children) {
+			add(child.title, readBody(child, this.config));
+		}
+	}
+
+	/**
+	 * The draft as expertise content, with placeholders for required parts the
+	 * guide didn't have.
+	 */
+	build(meta: ExpertiseContent["meta"]): ExpertiseContent {
+		if (this.principles.length === 0) {
+			this.principles.push({
+				name: placeholder("Principle name"),
+				guidelines: [placeholder("Guideline")],
+			});
+			this.note(["principles"], "No principles found in the guide");
+		}
+		if (this.checkpoints.length === 0) {
+			this.checkpoints.push({
+				id: "checkpoint_1",
+				name: placeholder("Checkpoint name"),
+				purpose: placeholder("Why this checkpoint matters"),
+				whatIndicatesPresence: [placeholder("What indicates this is covered")],
+				commonProblems: [],
+			});
+			this.note(
+				["checkpoints"],
+				"No checkpoints found; add a heading matching the checkpoint conventions",
+			);
+		}
+
+		const review = this.review;
+		const feedbackStructure = nonEmpty(review.feedbackStructure);
+		const tone = nonEmpty(review.tone);
+		const missing = [
+			...(feedbackStructure ? [] : ["feedbackStructure"]),
+			...(tone ? [] : ["tone"]),
+		];
+		if (missing.length > 0) {
+			this.note(
+				["reviewGuidance"],
+				`Review guidance ${missing.join(" and ")} not found in the guide`,
+			);
+		}
+
+		return {
+			version: SCHEMA_VERSION,
+			meta,
+			principles: this.principles,
+			checkpoints: this.checkpoints,
+			...(Object.keys(this.qualityChecks).length > 0 && {
+				qualityChecks: this.qualityChecks,
+			}),
+			reviewGuidance: {
+				...(review.purpose && { purpose: review.purpose }),
+				feedbackStructure: feedbackStructure ?? [
+					placeholder("How to structure feedback"),
+				],
+				...(review.reviewerMindset && {
+					reviewerMindset: review.reviewerMindset,
+				}),
+				tone: tone ?? [placeholder("Tone for feedback")],
+			},
+		};
+	}
+
+	note(path: (string | number)[], message: string): void {
+		this.notes.push({ path, message });
+	}
+
+	noteUnpaired(path: (string | number)[], body: Body): void {
+		if (body.unpaired.length > 0) {
+			this.note(
+				path,
+				`Examples without a bad/good partner: ${summarize(body.unpaired)}`,
+			);
+		}
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function nonEmpty<T>(items: T[] | undefined): T[] | undefined {
+	return items && items.length > 0 ? items : undefined;
+}
+
+function summarize(texts: string[]): string {
+	return texts
+		.map((t) => (t.length > 60 ? `"${t.slice(0, 57)}..."` : `"${t}"`))
+		.join(", ");
+}
+
+/**
+ * Checkpoint ID from a heading ("Getting Started" -> "getting_started").
+ */
+function slugId(text: string): string {
+	return (
+		text
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "_")
+			.replace(/^_+|_+$/g, "") || "checkpoint"
+	);
+}
+
+/**
+ * Quality check key from a heading ("Passive Voice" -> "passiveVoice").
+ */
+function camelKey(text: string): string {
+	const words = text
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+	return (
+		words
+			.map((word, i) =>
+				i === 0 ? word : word[0].toUpperCase() + word.slice(1),
+			)
+			.join("") || "check"
+	);
+}
+
+function uniqueKey(key: string, taken: string[]): string {
+	let candidate = key;
+	for (let n = 2; taken.includes(candidate); n++) {
+		candidate = `${key}_${n}`;
+	}
+	return candidate;
+}
+
+/**
+ * Suggest a tool prefix from a domain name ("Code Review" -> "code_review").
+ */
+function suggestPrefix(domain: string): string {
+	const prefix = domain
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "_")
+		.replace(/^[^a-z]+|_+$/g, "");
+	return prefix || "domain";
+}
+
+/**
+ * Render the draft as YAML with the notes as "# REVIEW:" comments.
+ */
+function renderYaml(
+	content: ExpertiseContent,
+	notes: Note[],
+	header: string[],
+): string {
+	const doc = new YAML.Document(content);
+	for (const { path, message } of notes) {
+		const parent = doc.getIn(path.slice(0, -1), true) ?? doc.contents;
+		const last = path[path.length - 1];
+		let target: YAML.Node | undefined;
+		if (YAML.isMap(parent)) {
+			const pair = parent.items.find(
+				(p) => YAML.isScalar(p.key) && p.key.value === last,
+			);
+			target = pair && YAML.isScalar(pair.key) ? pair.key : undefined;
+		} else if (YAML.isSeq(parent) && typeof last === "number") {
+			const item = parent.items[last];
+			target = YAML.isNode(item) ? item : undefined;
+		}
+		if (target) {
+			const comment = ` REVIEW: ${message.replace(/\n/g, " ")}`;
+			target.commentBefore = target.commentBefore
+				? `${target.commentBefore}\n${comment}`
+				: comment;
+		}
+	}
+	// Quote the version like the content files do, so it never reads as a number
+	const version = doc.get("version", true);
+	if (YAML.isScalar(version)) {
+		version.type = "QUOTE_DOUBLE";
+	}
+	doc.commentBefore = header.map((line) => ` ${line}`.trimEnd()).join("\n");
+	return doc.toString({ lineWidth: 0 });
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Parse the guide path and --name value flags. Boolean flags are listed in
+ * `switches`.
+ */
+function parseArgs(args: string[], switches: string[]) {
+	const values = new Map<string, string>();
+	const flags = new Set<string>();
+	const positional: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (!arg.startsWith("--")) {
+			positional.push(arg);
+			continue;
+		}
+		const name = arg.slice(2);
+		if (switches.includes(name)) {
+			flags.add(name);
+			continue;
+		}
+		const value = args[i + 1];
+		if (value === undefined || value.startsWith("--")) {
+			fail(`${arg} needs a value`);
+		}
+		values.set(name, value);
+		i++;
+	}
+	const known = ["domain", "author", "prefix", "out", "config"];
+	for (const name of values.keys()) {
+		if (!known.includes(name)) fail(`Unknown option: --${name}`);
+	}
+	if (positional.length !== 1) {
+		fail(
+			"Pass one Markdown file, e.g. bun scripts/import-markdown.ts guide.md",
+		);
+	}
+	return { input: positional[0], values, flags };
+}
+
+function main() {
+	const { input, values, flags } = parseArgs(process.argv.slice(2), ["force"]);
+	const config = loadConfig(values.get("config"));
+	const inputPath = resolve(process.cwd(), input);
+	if (!existsSync(inputPath)) {
+		fail(`File not found: ${inputPath}`);
+	}
+
+	log("bold", `\n📥 Importing ${relative(process.cwd(), inputPath)}\n`);
+
+	const root = parseMarkdown(readFileSync(inputPath, "utf-8"));
+	const titleSection = root.children.find((s) => s.level === 1);
+	const tops = root.children.flatMap((s) => (s.level === 1 ? s.children : [s]));
+	const introBlocks = [...root.blocks, ...(titleSection?.blocks ?? [])];
+	const intro = introBlocks.find((b) => b.type === "paragraph");
+
+	const draft = new Draft(config);
+	for (const section of tops) {
+		draft.addSection(section);
+	}
+
+	const domain = values.get("domain") ?? titleSection?.title;
+	const toolPrefix = values.get("prefix") ?? suggestPrefix(domain ?? "");
+	const prefixCheck =
+		ExpertiseMetaSchema.shape.toolPrefix.safeParse(toolPrefix);
+	if (!prefixCheck.success) {
+		fail(
+			`Tool prefix "${toolPrefix}": ${prefixCheck.error.issues[0].message}. Pass --prefix.`,
+		);
+	}
+	const meta: ExpertiseContent["meta"] = {
+		domain: domain ?? placeholder("Domain name"),
+		author: values.get("author") ?? placeholder("Your Name"),
+		description:
+			intro?.text.replace(/\n/g, " ") ??
+			placeholder("What this expertise covers"),
+		toolPrefix,
+	};
+	if (!domain) draft.note(["meta", "domain"], "The guide has no # title");
+	if (!intro) draft.note(["meta", "description"], "No intro paragraph found");
+
+	const content = draft.build(meta);
+	const outPath = resolve(
+		process.cwd(),
+		values.get("out") ?? `content/${toolPrefix}.yaml`,
+	);
+	if (existsSync(outPath) && !flags.has("force")) {
+		fail(
+			`${relative(process.cwd(), outPath)} exists; pass --force to overwrite`,
+		);
+	}
+
+	// Relative to the output file, wherever the importer is run from
+	const schemaPath = relative(dirname(outPath), SCHEMA_FILE)
+		.split(sep)
+		.join("/");
+	const header = [
+		`yaml-language-server: $schema=${schemaPath}`,
+		"",
+		`Imported from ${relative(dirname(outPath), inputPath)} by scripts/import-markdown.ts.`,
+		"Resolve every REVIEW comment and [REPLACE: ...] placeholder, then run",
+		"`bun run validate`.",
+		...(draft.skipped.length > 0
+			? ["", `Skipped headings: ${draft.skipped.join(", ")}`]
+			: []),
+	];
+	const yaml = renderYaml(content, draft.notes, header);
+	mkdirSync(dirname(outPath), { recursive: true });
+	writeFileSync(outPath, yaml);
+
+	const counts = [
+		`${content.principles.length} principle(s)`,
+		`${content.checkpoints.length} checkpoint(s)`,
+		`${Object.keys(content.qualityChecks ?? {}).length} quality check(s)`,
+	];
+	log(
+		"green",
+		`✓ Wrote ${relative(process.cwd(), outPath)}: ${counts.join(", ")}`,
+	);
+	if (draft.notes.length > 0) {
+		log("yellow", `  ${draft.notes.length} REVIEW comment(s) to resolve`);
+	}
+	for (const title of draft.skipped) {
+		log("yellow", `  Skipped "${title}": no section convention matched`);
+	}
+
+	// Check what was written, so errors point at lines in the file
+	const source = parseSource(yaml);
+	const result = ExpertiseContentSchema.safeParse(source.doc.toJS());
+	if (!result.success) {
+		log("red", "\n✗ The draft doesn't match the schema:");
+		for (const diagnostic of issueDiagnostics(result.error.issues, source)) {
+			log(
+				"red",
+				`  ${relative(process.cwd(), outPath)}: ${formatDiagnostic(diagnostic)}`,
+			);
+		}
+		process.exit(1);
+	}
+	log("green", "✓ Schema check passed");
+	log(
+		"blue",
+		"\nNext: resolve the REVIEW comments, then run `bun run validate`.",
+	);
+}
+
+main();
@@ -0,0 +1,526 @@
+#!/usr/bin/env bun
+/**
+ * Scaffold a new expertise domain: asks a few questions, then writes a YAML
+ * skeleton that passes validation, with [REPLACE: ...] placeholders to fill in.
+ *
+ * Usage:
+ *   bun scripts/init-expertise.ts                 # Asks for everything
+ *   bun scripts/init-expertise.ts --yes --domain "Code Review" --author "Jane Doe"
+ *
+ * Options (also used as defaults when asking):
+ *   --domain <name>         Domain name (required with --yes)
+ *   --author <name>         Author (required with --yes)
+ *   --description <text>    One-line description
+ *   --prefix <prefix>       Tool prefix (default: derived from the domain)
+ *   --principles <n>        Number of principles (default 3)
+ *   --checkpoints <n>       Number of checkpoints (default 3)
+ *   --sections <list>       Optional sections: categories, quality-checks,
+ *                           requirements, rubric (comma-separated, or "none")
+ *   --out <path>            Output file (default content/<prefix>.yaml)
+ *   --force                 Overwrite an existing file
+ *   --yes                   Don't ask; use the options and defaults
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { createInterface } from "node:readline";
+import YAML from "yaml";
+import { isFragmentFile } from "../src/inheritance";
+import { lintExpertise } from "../src/lint";
+import { isLocaleFile } from "../src/localization";
+import {
+	ExpertiseContentSchema,
+	ExpertiseMetaSchema,
+	SCHEMA_VERSION,
+} from "../src/types";
+
+const COLORS = {
+	red: "\x1b[31m",
+	green: "\x1b[32m",
+	yellow: "\x1b[33m",
+	blue: "\x1b[34m",
+	reset: "\x1b[0m",
+	bold: "\x1b[1m",
+};
+
+function log(color: keyof typeof COLORS, message: string) {
+	console.log(`${COLORS[color]}${message}${COLORS.reset}`);
+}
+
+function fail(message: string): never {
+	log("red", `Error: ${message}`);
+	process.exit(1);
+}
+
+const SECTIONS = [
+	"categories",
+	"quality-checks",
+	"requirements",
+	"rubric",
+] as const;
+type Section = (typeof SECTIONS)[number];
+
+const MAX_ITEMS = 20;
+const DEFAULT_COUNT = 3;
+
+/**
+ * Answers that shape the skeleton.
+ */
+interface InitOptions {
+	domain: string;
+	author: string;
+	description: string;
+	toolPrefix: string;
+	principles: number;
+	checkpoints: number;
+	sections: Section[];
+	out: string;
+}
+
+// ============================================================================
+// Validation of answers
+// ============================================================================
+
+/**
+ * Check a tool prefix against the schema and the files next to the output.
+ * Returns an error message, or undefined if the prefix can be used.
+ */
+function checkToolPrefix(
+	prefix: string,
+	existing: Map<string, string>,
+): string | undefined {
+	const result = ExpertiseMetaSchema.shape.toolPrefix.safeParse(prefix);
+	if (!result.success) {
+		return result.error.issues[0].message;
+	}
+	const file = existing.get(prefix);
+	return file
+		? `Tool prefix "${prefix}" is already used by ${file}`
+		: undefined;
+}
+
+/**
+ * Tool prefixes already used by domain files in a directory.
+ */
+function existingPrefixes(dir: string): Map<string, string> {
+	const prefixes = new Map<string, string>();
+	if (!existsSync(dir)) {
+		return prefixes;
+	}
+	for (const file of readdirSync(dir)) {
+		if (!file.endsWith(".yaml") || isFragmentFile(file) || isLocaleFile(file)) {
+			continue;
+		}
+		try {
+			const data = YAML.parse(readFileSync(join(dir, file), "utf-8"));
+			const prefix = data?.meta?.toolPrefix;
+			if (typeof prefix === "string") {
+				prefixes.set(prefix, file);
+			}
+		} catch {
+			// Unreadable files can't collide; validate reports them
+		}
+	}
+	return prefixes;
+}
+
+/**
+ * Suggest a tool prefix from a domain name ("Code Review" -> "code_review").
+ */
+function suggestPrefix(domain: string): string {
+	const prefix = domain
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "_")
+		.replace(/^[^a-z]+|_+$/g, "");
+	return prefix || "domain";
+}
+
+// Answer parsers return the value, or an error to show before asking again
+type Parsed<T> = T | { error: string };
+
+function parseCount(value: string, label: string): Parsed<number> {
+	const count = Number(value);
+	if (!Number.isInteger(count) || count < 1 || count > MAX_ITEMS) {
+		return { error: `${label} must be a whole number from 1 to ${MAX_ITEMS}` };
+	}
+	return count;
+}
+
+function parseSections(value: string): Parsed<Section[]> {
+	if (value.trim() === "" || value.trim() === "none") {
+		return [];
+	}
+	const sections = value.split(",").map((s) => s.trim());
+	const unknown = sections.filter((s) => !SECTIONS.includes(s as Section));
+	if (unknown.length > 0) {
+		return {
+			error: `Unknown section(s): ${unknown.join(", ")}. Choose from ${SECTIONS.join(", ")}`,
+		};
+	}
+	return [...new Set(sections as Section[])];
+}
+
+// ============================================================================
+// Skeleton
+// ============================================================================
+
+// Double-quoted YAML string (JSON strings are valid YAML)
+const q = (value: string) => JSON.stringify(value);
+
+function header(title: string): string[] {
+	const rule = `# ${"-".repeat(77)}`;
+	return ["", rule, `# ${title}`, rule];
+}
+
+/**
+ * Render the skeleton YAML for the answers.
+ */
+function renderSkeleton(options: InitOptions, schemaPath: string): string {
+	const lines = [
+		`# yaml-language-server: $schema=${schemaPath}`,
+		`# ${options.domain} expertise`,
+		"#",
+		"# Replace the [REPLACE: ...] placeholders with your domain expertise, then",
+		"# run `bun run validate`. Full schema documentation: docs/schema-reference.md",
+		"",
+		`version: ${q(SCHEMA_VERSION)}`,
+		...header("META: Basic information about your expertise domain"),
+		"meta:",
+		`  domain: ${q(options.domain)}`,
+		`  author: ${q(options.author)}`,
+		`  description: ${q(options.description)}`,
+		`  toolPrefix: ${q(options.toolPrefix)}`,
+		...header("PRINCIPLES: High-level guidelines"),
+		"principles:",
+	];
+
+	for (let i = 1; i <= options.principles; i++) {
+		lines.push(
+			`  - name: "[REPLACE: Principle ${i} name]"`,
+			`    description: "[REPLACE: Why this principle matters]"`,
+			"    guidelines:",
+			`      - "[REPLACE: Specific actionable guidance]"`,
+			"    examples:",
+			`      - bad: "[REPLACE: Example of what NOT to do]"`,
+			`        good: "[REPLACE: Example of what TO do]"`,
+		);
+	}
+
+	const checkpointIds = Array.from(
+		{ length: options.checkpoints },
+		(_, i) => `checkpoint_${i + 1}`,
+	);
+	lines.push(
+		...header("CHECKPOINTS: Things to verify in content"),
+		"# Rename the IDs too: lowercase with underscores, unique in this file",
+		"checkpoints:",
+	);
+	for (const [i, id] of checkpointIds.entries()) {
+		lines.push(
+			`  - id: ${q(id)}`,
+			`    name: "[REPLACE: Checkpoint ${i + 1} name]"`,
+			`    purpose: "[REPLACE: What this checkpoint verifies]"`,
+			"    # Use semantic descriptions, not keywords",
+			"    whatIndicatesPresence:",
+			`      - "[REPLACE: Describe what to look for conceptually]"`,
+			"    commonProblems:",
+			`      - "[REPLACE: Typical issue people have]"`,
+		);
+	}
+
+	if (options.sections.includes("categories")) {
+		lines.push(
+			...header("CATEGORIES: Types of content in your domain"),
+			"categories:",
+		);
+		for (let i = 1; i <= 2; i++) {
+			lines.push(
+				`  - id: "category_${i}"`,
+				`    name: "[REPLACE: Category ${i} name]"`,
+				`    description: "[REPLACE: When this category applies]"`,
+				"    indicators:",
+				`      - "[REPLACE: What identifies content of this type]"`,
+				"    considerations:",
+				`      - "[REPLACE: What matters most for this type]"`,
+			);
+		}
+	}
+
+	if (options.sections.includes("quality-checks")) {
+		lines.push(
+			...header("QUALITY CHECKS: Specific issues to flag"),
+			"qualityChecks:",
+			"  quality_check_1:",
+			`    whatToCheck: "[REPLACE: What to look for]"`,
+			`    whyItMatters: "[REPLACE: Why this matters]"`,
+			"    examples:",
+			`      - bad: "[REPLACE: Example of the problem]"`,
+			`        good: "[REPLACE: How to fix it]"`,
+		);
+	}
+
+	lines.push(
+		...header("REVIEW GUIDANCE: How to frame feedback"),
+		"reviewGuidance:",
+		"  feedbackStructure:",
+		`    - "[REPLACE: How to structure feedback, e.g., 'Start with what works well']"`,
+		"  tone:",
+		`    - "[REPLACE: Tone guidance, e.g., 'Be constructive and specific']"`,
+	);
+
+	if (options.sections.includes("requirements")) {
+		lines.push(
+			...header("REQUIREMENTS: External constraints (compliance, standards)"),
+			"requirements:",
+			`  - name: "[REPLACE: Requirement name]"`,
+			`    description: "[REPLACE: What this requirement covers]"`,
+			"    triggers:",
+			`      - "[REPLACE: When this requirement applies]"`,
+		);
+	}
+
+	if (options.sections.includes("rubric")) {
+		lines.push(
+			...header("RUBRIC: Numeric scores built from checkpoints"),
+			"rubric:",
+			"  scale:",
+			"    min: 1",
+			"    max: 5",
+			"  criteria:",
+			...checkpointIds.flatMap((id) => [
+				`    - checkpoint: ${q(id)}`,
+				"      weight: 1",
+			]),
+			"  passThreshold: 3.5",
+		);
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Make sure a rendered skeleton validates and has no lint errors, so the
+ * author starts from a file that `bun run validate` accepts.
+ */
+function checkSkeleton(yaml: string): void {
+	const result = ExpertiseContentSchema.safeParse(YAML.parse(yaml));
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		throw new Error(
+			`Generated skeleton is invalid at ${issue.path.join(".")}: ${issue.message}`,
+		);
+	}
+	const errors = lintExpertise(result.data).filter(
+		(f) => f.severity === "error",
+	);
+	if (errors.length > 0) {
+		throw new Error(`Generated skeleton fails lint: ${errors[0].message}`);
+	}
+}
+
+// ============================================================================
+// Options
+// ============================================================================
+
+/**
+ * Parse --name value flags. Boolean flags are listed in `switches`.
+ */
+function parseFlags(args: string[], switches: string[]) {
+	const values = new Map<string, string>();
+	const flags = new Set<string>();
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (!arg.startsWith("--")) {
+			fail(`Unexpected argument: ${arg}`);
+		}
+		const name = arg.slice(2);
+		if (switches.includes(name)) {
+			flags.add(name);
+			continue;
+		}
+		const value = args[i + 1];
+		if (value === undefined || value.startsWith("--")) {
+			fail(`${arg} needs a value`);
+		}
+		values.set(name, value);
+		i++;
+	}
+	return { values, flags };
+}
+
+/**
+ * Gather the answers, asking for each unless running with --yes.
+ */
+async function collectOptions(args: string[]): Promise<InitOptions> {
+	const { values, flags } = parseFlags(args, ["yes", "force"]);
+	const known = [
+		"domain",
+		"author",
+		"description",
+		"prefix",
+		"principles",
+		"checkpoints",
+		"sections",
+		"out",
+	];
+	for (const name of values.keys()) {
+		if (!known.includes(name)) {
+			fail(`Unknown option: --${name}`);
+		}
+	}
+
+	// Answers are read line by line, so they can also be piped in
+	const rl = flags.has("yes")
+		? undefined
+		: createInterface({ input: process.stdin, output: process.stdout });
+	const lines = rl?.[Symbol.asyncIterator]();
+
+	/**
+	 * Ask for a value (or take the flag), re-asking until `parse` accepts it.
+	 */
+	const ask = async <T>(
+		question: string,
+		fallback: string | undefined,
+		parse: (answer: string) => Parsed<T>,
+	): Promise<T> => {
+		for (;;) {
+			let answer = fallback ?? "";
+			if (lines) {
+				const hint = fallback ? ` [${fallback}]` : "";
+				process.stdout.write(`${question}${hint}: `);
+				const line = await lines.next();
+				if (line.done) {
+					console.log("");
+					fail("Input ended before every question was answered");
+				}
+				answer = line.value.trim() || answer;
+			}
+			const parsed = parse(answer);
+			if (typeof parsed === "object" && parsed && "error" in parsed) {
+				if (!lines) fail(parsed.error);
+				log("yellow", `  ${parsed.error}`);
+				continue;
+			}
+			return parsed as T;
+		}
+	};
+	const required =
+		(label: string) =>
+		(answer: string): Parsed<string> =>
+			answer ? answer : { error: `${label} is required` };
+
+	try {
+		const domain = await ask(
+			"Domain name",
+			values.get("domain"),
+			required("Domain name (--domain)"),
+		);
+		const author = await ask(
+			"Author",
+			values.get("author"),
+			required("Author (--author)"),
+		);
+		const description = await ask(
+			"One-line description (optional)",
+			values.get("description"),
+			(answer) =>
+				answer ||
+				"[REPLACE: Brief description of what this expertise helps with]",
+		);
+
+		const outArg = values.get("out");
+		const dir = outArg
+			? dirname(resolve(process.cwd(), outArg))
+			: resolve(process.cwd(), "content");
+		const prefixes = existingPrefixes(dir);
+		const toolPrefix = await ask(
+			"Tool prefix (tools are named like load_<prefix>_context)",
+			values.get("prefix") ?? suggestPrefix(domain),
+			(answer) => {
+				const error = checkToolPrefix(answer, prefixes);
+				return error ? { error } : answer;
+			},
+		);
+
+		const principles = await ask(
+			"Number of principles",
+			values.get("principles") ?? String(DEFAULT_COUNT),
+			(answer) => parseCount(answer, "Principles"),
+		);
+		const checkpoints = await ask(
+			"Number of checkpoints",
+			values.get("checkpoints") ?? String(DEFAULT_COUNT),
+			(answer) => parseCount(answer, "Checkpoints"),
+		);
+		const sections = await ask(
+			`Optional sections (${SECTIONS.join(", ")}; comma-separated)`,
+			values.get("sections") ?? "none",
+			parseSections,
+		);
+		const out = await ask(
+			"Output file",
+			outArg ?? join("content", `${toolPrefix.replace(/_/g, "-")}.yaml`),
+			(answer) => {
+				if (!answer.endsWith(".yaml")) {
+					return { error: "Output file must end in .yaml" };
+				}
+				if (isFragmentFile(answer) || isLocaleFile(answer)) {
+					return {
+						error: "Output file can't be a .fragment.yaml or .locale.yaml file",
+					};
+				}
+				if (existsSync(resolve(process.cwd(), answer)) && !flags.has("force")) {
+					return {
+						error: `${answer} already exists (use --force to overwrite)`,
+					};
+				}
+				return resolve(process.cwd(), answer);
+			},
+		);
+
+		return {
+			domain,
+			author,
+			description,
+			toolPrefix,
+			principles,
+			checkpoints,
+			sections,
+			out,
+		};
+	} finally {
+		rl?.close();
+	}
+}
+
+async function main() {
+	const options = await collectOptions(process.argv.slice(2));
+
+	const schemaPath = relative(
+		dirname(options.out),
+		resolve(process.cwd(), "schema/expertise.schema.json"),
+	)
+		.split(sep)
+		.join("/");
+	const yaml = renderSkeleton(options, schemaPath);
+	checkSkeleton(yaml);
+	writeFileSync(options.out, yaml);
+
+	console.log("");
+	log("green", `Created ${relative(process.cwd(), options.out)}`);
+	console.log("");
+	console.log("Next steps:");
+	console.log(
+		"  1. Replace the [REPLACE: ...] placeholders with your expertise",
+	);
+	console.log(
+		options.sections.includes("rubric")
+			? "  2. Rename the checkpoint IDs (and the rubric's references to them)"
+			: "  2. Rename the checkpoint IDs to describe what they check",
+	);
+	console.log(
+		`  3. Run \`bun run validate ${relative(process.cwd(), options.out)}\``,
+	);
+}
+
+main();
@@ -0,0 +1,122 @@
+#!/usr/bin/env bun
+/**
+ * Upgrade expertise YAML files to the current schema version, in place.
+ * Comments and formatting are kept; only what a migration changes is rewritten.
+ *
+ * Usage:
+ *   bun scripts/migrate-expertise.ts                # Migrates all .yaml files in content/
+ *   bun scripts/migrate-expertise.ts [path...]      # Migrates specific files
+ *   bun scripts/migrate-expertise.ts --dry-run      # Shows what would change
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import YAML from "yaml";
+import { type MigrationResult, migrateExpertise } from "../src/migrations";
+import { SCHEMA_VERSION } from "../src/types";
+
+const COLORS = {
+	red: "\x1b[31m",
+	green: "\x1b[32m",
+	yellow: "\x1b[33m",
+	blue: "\x1b[34m",
+	reset: "\x1b[0m",
+	bold: "\x1b[1m",
+};
+
+function log(color: keyof typeof COLORS, message: string) {
+	console.log(`${COLORS[color]}${message}${COLORS.reset}`);
+}
+
+type Outcome = "migrated" | "current" | "failed";
+
+function migrateFile(filePath: string, dryRun: boolean): Outcome {
+	if (!existsSync(filePath)) {
+		log("red", `${filePath}: file not found`);
+		return "failed";
+	}
+
+	const text = readFileSync(filePath, "utf-8");
+	const doc = YAML.parseDocument(text);
+	if (doc.errors.length > 0) {
+		log("red", `${filePath}: failed to parse YAML`);
+		console.error(doc.errors[0].message);
+		return "failed";
+	}
+
+	let result: MigrationResult;
+	try {
+		result = migrateExpertise(doc, filePath);
+	} catch (error) {
+		log("red", error instanceof Error ? error.message : String(error));
+		return "failed";
+	}
+
+	if (!result.changed) {
+		log("green", `${filePath}: already at ${SCHEMA_VERSION}`);
+		return "current";
+	}
+
+	log(
+		"blue",
+		`${filePath}: ${result.from ?? "(no version)"} -> ${SCHEMA_VERSION}${dryRun ? " (dry run)" : ""}`,
+	);
+	for (const step of result.applied) {
+		console.log(`  - ${step}`);
+	}
+	if (!dryRun) {
+		writeFileSync(filePath, render(text, doc));
+	}
+	return "migrated";
+}
+
+/**
+ * Render a migrated document. When only the version changed, the original
+ * text is patched so the file's layout is untouched; otherwise the document
+ * is re-serialized (comments are kept, but spacing may shift).
+ */
+function render(text: string, doc: YAML.Document): string {
+	const node = doc.get("version", true);
+	if (YAML.isScalar(node) && node.range) {
+		const [start, end] = node.range;
+		const patched = `${text.slice(0, start)}"${SCHEMA_VERSION}"${text.slice(end)}`;
+		if (isDeepStrictEqual(YAML.parse(patched), doc.toJS())) {
+			return patched;
+		}
+	}
+	return doc.toString({ lineWidth: 0, flowCollectionPadding: false });
+}
+
+function main() {
+	const args = process.argv.slice(2);
+	const dryRun = args.includes("--dry-run");
+	const paths = args.filter((a) => a !== "--dry-run");
+
+	let files: string[];
+	if (paths.length > 0) {
+		files = paths.map((p) => resolve(process.cwd(), p));
+	} else {
+		const contentDir = resolve(process.cwd(), "content");
+		if (!existsSync(contentDir)) {
+			log("red", "Error: content/ directory not found");
+			process.exit(1);
+		}
+		files = readdirSync(contentDir)
+			.filter((f) => f.endsWith(".yaml"))
+			.map((f) => join(contentDir, f));
+	}
+
+	const outcomes = files.map((file) => migrateFile(file, dryRun));
+	const count = (outcome: Outcome) =>
+		outcomes.filter((o) => o === outcome).length;
+
+	console.log("");
+	log(
+		count("failed") > 0 ? "red" : "green",
+		`${count("migrated")} ${dryRun ? "to migrate" : "migrated"}, ${count("current")} already current, ${count("failed")} failed`,
+	);
+	process.exit(count("failed") > 0 ? 1 : 0);
+}
+
+main();
@@ -5,12 +5,58 @@
  * Usage:
  *   bun scripts/validate-expertise.ts           # Validates all .yaml files in content/
  *   bun scripts/validate-expertise.ts [path]    # Validates a specific file
+ *   bun scripts/validate-expertise.ts --config lint.json
+ *   bun scripts/validate-expertise.ts --format json|sarif
+ *
+ * Files named in `extends` are read from the same directory as the file.
+ * Lint rules are configured in expertise-lint.json (or the file passed with
+ * --config); see docs/schema-reference.md.
+ *
+ * Problems are reported with the line and column they occur at. With
+ * --format json or sarif, only the report is written to stdout, for editors
+ * and CI to annotate.
  */
 
-import { readFileSync, existsSync, readdirSync } from "node:fs";
-import { resolve, join } from "node:path";
-import YAML from "yaml";
-import { ExpertiseContentSchema } from "../src/types";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { basename, dirname, join, relative, resolve, sep } from "node:path";
+import {
+	type ExpertiseSource,
+	errorDiagnostic,
+	issueDiagnostics,
+	locatePath,
+	parseSource,
+	toSarif,
+} from "../src/diagnostics";
+import { isFragmentFile, resolveExtends } from "../src/inheritance";
+import {
+	LINT_RULES,
+	lintExpertise,
+	type ResolvedLintConfig,
+	resolveLintConfig,
+} from "../src/lint";
+import {
+	applyTranslation,
+	findUntranslated,
+	isLocaleFile,
+	localeFileName,
+} from "../src/localization";
+import {
+	type MigrationResult,
+	migrateExpertise,
+	parseExpertise,
+} from "../src/migrations";
+import type {
+	ExpertiseContent,
+	ExpertiseDiagnostic,
+	ExpertiseTranslation,
+} from "../src/types";
+import {
+	ExpertiseContentSchema,
+	ExpertiseFragmentSchema,
+	ExpertiseTranslationSchema,
+	getLocale,
+	SCHEMA_VERSION,
+} from "../src/types";
 
 const COLORS = {
 	red: "\x1b[31m",
@@ -21,31 +67,162 @@ const COLORS = {
 	bold: "\x1b[1m",
 };
 
+const FORMATS = ["human", "json", "sarif"] as const;
+type OutputFormat = (typeof FORMATS)[number];
+
+// Human output is suppressed for json and sarif, which print one report
+let format: OutputFormat = "human";
+
 function log(color: keyof typeof COLORS, message: string) {
-	console.log(`${COLORS[color]}${message}${COLORS.reset}`);
+	print(`${COLORS[color]}${message}${COLORS.reset}`);
+}
+
+function print(message = "") {
+	if (format === "human") {
+		console.log(message);
+	}
+}
+
+/**
+ * Report a problem that stops validation entirely, in any format.
+ */
+function fail(message: string, detail?: unknown): never {
+	console.error(`${COLORS.red}${message}${COLORS.reset}`);
+	if (detail instanceof Error) {
+		console.error(detail.message);
+	}
+	process.exit(1);
+}
+
+// Checks other than lint rules, described in SARIF output
+const BUILTIN_RULES = [
+	{ id: "file", description: "The file could not be read" },
+	{ id: "yaml", description: "YAML syntax errors and warnings" },
+	{ id: "schema", description: "Content must match the expertise schema" },
+	{ id: "version", description: "The schema version must be supported" },
+	{ id: "extends", description: "Extended files must exist and be valid" },
+	{
+		id: "translation",
+		description: "Translation files must match their domain",
+	},
+	{
+		id: "tool-prefix-collision",
+		description: "Each domain needs its own toolPrefix",
+	},
+];
+
+// Diagnostics for every file checked, in order
+const results = new Map<string, ExpertiseDiagnostic[]>();
+
+/**
+ * Record diagnostics for a file and print them as file:line:column.
+ */
+function report(filePath: string, diagnostics: ExpertiseDiagnostic[]) {
+	const recorded = results.get(filePath) ?? [];
+	results.set(filePath, [...recorded, ...diagnostics]);
+
+	for (const d of diagnostics) {
+		const color = d.severity === "error" ? "red" : "yellow";
+		const location = d.line ? `:${d.line}:${d.column ?? 1}` : "";
+		const path = d.path?.length ? `${d.path.join(".")}: ` : "";
+		print(
+			`  ${COLORS[color]}${d.severity}${COLORS.reset} ${displayPath(filePath)}${location} ${path}${d.message} (${d.rule})`,
+		);
+	}
+}
+
+function hasErrors(diagnostics: ExpertiseDiagnostic[]): boolean {
+	return diagnostics.some((d) => d.severity === "error");
+}
+
+function displayPath(filePath: string): string {
+	return relative(process.cwd(), filePath).split(sep).join("/");
+}
+
+const DEFAULT_LINT_CONFIG = "expertise-lint.json";
+
+/**
+ * Load lint settings from the given path, or from expertise-lint.json in the
+ * working directory when it exists. Exits on an invalid config.
+ */
+function loadLintConfig(configPath: string | undefined): ResolvedLintConfig {
+	const path = resolve(process.cwd(), configPath ?? DEFAULT_LINT_CONFIG);
+	if (!existsSync(path)) {
+		if (configPath) {
+			fail(`Error: Lint config not found: ${path}`);
+		}
+		return resolveLintConfig();
+	}
+
+	try {
+		return resolveLintConfig(JSON.parse(readFileSync(path, "utf-8")));
+	} catch (error) {
+		fail(`Error: Invalid lint config: ${path}`, error);
+	}
 }
 
-function validateFile(filePath: string): boolean {
-	console.log("");
+async function validateFile(
+	filePath: string,
+	lintConfig: ResolvedLintConfig,
+): Promise<boolean> {
+	print("");
 	log("blue", `Validating: ${filePath}`);
-	console.log("");
+	print("");
+	results.set(filePath, []);
 
 	// Check file exists
 	if (!existsSync(filePath)) {
-		log("red", `Error: File not found: ${filePath}`);
+		report(filePath, [
+			{ severity: "error", rule: "file", message: "File not found" },
+		]);
+		return false;
+	}
+
+	// Read and parse YAML; warnings are reported but don't fail the file
+	const source = parseSource(readFileSync(filePath, "utf-8"));
+	if (hasErrors(source.diagnostics)) {
+		log("red", "Error: Failed to parse YAML");
+		report(filePath, source.diagnostics);
 		return false;
 	}
+	if (source.diagnostics.length > 0) {
+		log("yellow", "YAML warnings:");
+		report(filePath, source.diagnostics);
+		print("");
+	}
 
-	// Read and parse YAML
-	let content: unknown;
+	// Upgrade older schema versions, as the server does on load
+	let migration: MigrationResult;
 	try {
-		const yamlText = readFileSync(filePath, "utf-8");
-		content = YAML.parse(yamlText);
+		migration = migrateExpertise(source.doc, filePath);
 	} catch (error) {
-		log("red", `Error: Failed to parse YAML`);
-		if (error instanceof Error) {
-			console.error(error.message);
-		}
+		log("red", "Error: Unsupported schema version");
+		report(filePath, [errorDiagnostic("version", error, source, ["version"])]);
+		return false;
+	}
+	let content: unknown = source.doc.toJS();
+
+	if (isLocaleFile(filePath)) {
+		log("yellow", "Translations are validated with their domain file");
+		return true;
+	}
+
+	// Fragments only hold shared parts, so they are checked on their own terms
+	if (isFragmentFile(filePath)) {
+		return validateFragment(filePath, source, content);
+	}
+
+	// Merge in extended files
+	try {
+		content = await resolveExtends(filePath, content, async (base) => {
+			const basePath = join(dirname(filePath), base);
+			return existsSync(basePath)
+				? parseExpertise(readFileSync(basePath, "utf-8"), base)
+				: undefined;
+		});
+	} catch (error) {
+		log("red", "Error: Failed to resolve extends");
+		report(filePath, [errorDiagnostic("extends", error, source, ["extends"])]);
 		return false;
 	}
 
@@ -54,112 +231,272 @@ function validateFile(filePath: string): boolean {
 
 	if (!result.success) {
 		log("red", "Validation failed!");
-		console.log("");
-
-		for (const issue of result.error.issues) {
-			const path = issue.path.join(".");
-			log("yellow", `  ${path || "(root)"}: ${issue.message}`);
-		}
-
-		console.log("");
+		print("");
+		report(filePath, issueDiagnostics(result.error.issues, source, content));
+		print("");
 		log("red", `Found ${result.error.issues.length} issue(s)`);
 		return false;
 	}
 
 	// Validation passed - show summary
 	log("green", "Validation passed!");
-	console.log("");
+	print("");
 
 	const data = result.data;
-	console.log(`  Domain: ${data.meta.domain}`);
-	console.log(`  Author: ${data.meta.author}`);
-	console.log(`  Tool Prefix: ${data.meta.toolPrefix}`);
-	console.log("");
-	console.log(`  Principles: ${data.principles.length}`);
-	console.log(`  Checkpoints: ${data.checkpoints.length}`);
-	console.log(`  Categories: ${data.categories?.length || 0}`);
-	console.log(
+	print(`  Domain: ${data.meta.domain}`);
+	if (data.extends) {
+		print(`  Extends: ${data.extends.join(", ")}`);
+	}
+	print(`  Author: ${data.meta.author}`);
+	print(`  Tool Prefix: ${data.meta.toolPrefix}`);
+	print("");
+	print(`  Principles: ${data.principles.length}`);
+	print(`  Checkpoints: ${data.checkpoints.length}`);
+	print(`  Categories: ${data.categories?.length || 0}`);
+	print(
 		`  Quality Checks: ${data.qualityChecks ? Object.keys(data.qualityChecks).length : 0}`,
 	);
-	console.log(`  Requirements: ${data.requirements?.length || 0}`);
-	console.log("");
-
-	// Warnings for optional fields
-	const warnings: string[] = [];
-
-	if (!data.meta.privacyStatement) {
-		warnings.push("No privacyStatement - default will be used");
+	print(`  Requirements: ${data.requirements?.length || 0}`);
+	print(`  Rubric Criteria: ${data.rubric?.criteria.length || 0}`);
+	print("");
+
+	if (migration.changed) {
+		report(filePath, [
+			{
+				severity: "warning",
+				rule: "version",
+				message: `Written for schema version ${migration.from} - run \`bun run migrate\` to upgrade the file to ${SCHEMA_VERSION}`,
+				path: ["version"],
+				...locatePath(source, ["version"]),
+			},
+		]);
+		print("");
 	}
 
-	// Check for examples
-	let hasCheckpointExamples = false;
-	let hasPrincipleExamples = false;
+	// Lint rules catch content that is valid but won't work well
+	const findings: ExpertiseDiagnostic[] = lintExpertise(data, lintConfig).map(
+		(f) => ({
+			severity: f.severity === "error" ? "error" : "warning",
+			rule: f.rule,
+			message: f.message,
+			path: f.path,
+			...locatePath(source, f.path, content),
+		}),
+	);
 
-	for (const cp of data.checkpoints) {
-		if (cp.exampleGood || cp.examplePoor) {
-			hasCheckpointExamples = true;
-			break;
+	if (findings.length > 0) {
+		log(hasErrors(findings) ? "red" : "yellow", "Lint:");
+		report(filePath, findings);
+		print("");
+		if (hasErrors(findings)) {
+			const count = findings.filter((f) => f.severity === "error").length;
+			log("red", `Found ${count} lint error(s)`);
+			return false;
 		}
 	}
 
-	for (const p of data.principles) {
-		if (p.examples && p.examples.length > 0) {
-			hasPrincipleExamples = true;
-			break;
-		}
+	if (!validateTranslations(filePath, data)) {
+		return false;
 	}
 
-	if (!hasCheckpointExamples) {
-		warnings.push(
-			"No checkpoint examples - consider adding exampleGood/examplePoor",
-		);
+	// Show generated tool names
+	log("blue", "MCP Tools that will be created:");
+	print(`  - load_${data.meta.toolPrefix}_context`);
+	print(`  - review_${data.meta.toolPrefix}_content`);
+	print(`  - get_${data.meta.toolPrefix}_guidelines`);
+	print(
+		`  - get_${data.meta.toolPrefix}_rubric${data.rubric ? "" : " (no rubric defined)"}`,
+	);
+	print(`  - search_${data.meta.toolPrefix}_expertise`);
+	print(`  - export_${data.meta.toolPrefix}_rules`);
+	print(`  - get_capabilities`);
+	print(`  - find_expertise`);
+	print("");
+
+	log("green", "Ready to deploy!");
+	return true;
+}
+
+/**
+ * Validate a domain's translation files and report what each leaves
+ * untranslated. Untranslated items fall back to the default language, so
+ * they are reported but don't fail validation.
+ */
+function validateTranslations(
+	filePath: string,
+	content: ExpertiseContent,
+): boolean {
+	const locales = content.meta.locales ?? [];
+	if (locales.length === 0) {
+		return true;
 	}
 
-	if (warnings.length > 0) {
-		log("yellow", "Suggestions:");
-		for (const w of warnings) {
-			console.log(`  - ${w}`);
+	log("blue", `Translations (default: ${getLocale(content.meta)}):`);
+	let valid = true;
+	for (const locale of locales) {
+		const localePath = join(
+			dirname(filePath),
+			localeFileName(basename(filePath), locale),
+		);
+		if (!existsSync(localePath)) {
+			log("red", `  ${locale}: missing ${basename(localePath)}`);
+			report(filePath, [
+				{
+					severity: "error",
+					rule: "translation",
+					message: `meta.locales lists ${locale}, but ${basename(localePath)} is missing`,
+					path: ["meta", "locales"],
+				},
+			]);
+			valid = false;
+			continue;
+		}
+
+		const source = parseSource(readFileSync(localePath, "utf-8"));
+		if (hasErrors(source.diagnostics)) {
+			log("red", `  ${locale}: ${basename(localePath)} failed to parse`);
+			report(localePath, source.diagnostics);
+			valid = false;
+			continue;
+		}
+		report(localePath, source.diagnostics);
+
+		let translation: ExpertiseTranslation;
+		try {
+			migrateExpertise(source.doc, localePath);
+			const result = ExpertiseTranslationSchema.safeParse(source.doc.toJS());
+			if (!result.success) {
+				log("red", `  ${locale}: ${basename(localePath)} is invalid`);
+				report(localePath, issueDiagnostics(result.error.issues, source));
+				valid = false;
+				continue;
+			}
+			translation = result.data;
+			applyTranslation(content, translation, locale);
+		} catch (error) {
+			log("red", `  ${locale}: ${basename(localePath)} failed to load`);
+			report(localePath, [errorDiagnostic("translation", error)]);
+			valid = false;
+			continue;
+		}
+
+		const untranslated = findUntranslated(content, translation);
+		if (untranslated.length === 0) {
+			log("green", `  ${locale}: complete`);
+		} else {
+			log("yellow", `  ${locale}: ${untranslated.length} untranslated`);
+			for (const path of untranslated) {
+				print(`    - ${path}`);
+			}
 		}
-		console.log("");
 	}
+	print("");
+	return valid;
+}
 
-	// Show generated tool names
-	log("blue", "MCP Tools that will be created:");
-	console.log(`  - load_${data.meta.toolPrefix}_context`);
-	console.log(`  - review_${data.meta.toolPrefix}_content`);
-	console.log(`  - get_${data.meta.toolPrefix}_guidelines`);
-	console.log(`  - get_capabilities`);
-	console.log("");
+function validateFragment(
+	filePath: string,
+	source: ExpertiseSource,
+	content: unknown,
+): boolean {
+	const result = ExpertiseFragmentSchema.safeParse(content);
+	if (!result.success) {
+		log("red", "Validation failed!");
+		print("");
+		report(filePath, issueDiagnostics(result.error.issues, source));
+		print("");
+		log("red", `Found ${result.error.issues.length} issue(s)`);
+		return false;
+	}
 
-	log("green", "Ready to deploy!");
+	log("green", "Fragment is valid (shared by files that extend it)");
+	print("");
+	const data = result.data;
+	print(`  Principles: ${data.principles?.length || 0}`);
+	print(`  Checkpoints: ${data.checkpoints?.length || 0}`);
+	print(`  Categories: ${data.categories?.length || 0}`);
+	print(
+		`  Quality Checks: ${data.qualityChecks ? Object.keys(data.qualityChecks).length : 0}`,
+	);
+	print(`  Review Guidance: ${data.reviewGuidance ? "yes" : "no"}`);
+	print("");
 	return true;
 }
 
-function main() {
+/**
+ * Read a flag's value (e.g. --format json) and remove both from args.
+ */
+function takeOption(args: string[], flag: string): string | undefined {
+	const index = args.indexOf(flag);
+	if (index === -1) {
+		return undefined;
+	}
+	const value = args[index + 1];
+	if (!value || value.startsWith("--")) {
+		fail(`Error: ${flag} needs a value`);
+	}
+	args.splice(index, 2);
+	return value;
+}
+
+/**
+ * Print the json or sarif report and exit.
+ */
+function finish(passed: boolean): never {
+	const files = [...results].map(([filePath, diagnostics]) => ({
+		file: displayPath(filePath),
+		diagnostics,
+	}));
+	if (format === "json") {
+		console.log(JSON.stringify({ passed, files }, null, 2));
+	} else if (format === "sarif") {
+		const rules = [
+			...BUILTIN_RULES,
+			...LINT_RULES.map((r) => ({ id: r.id, description: r.description })),
+		];
+		const sarif = toSarif(
+			files.map(({ file, diagnostics }) => ({ uri: file, diagnostics })),
+			rules,
+			"validate-expertise",
+		);
+		console.log(JSON.stringify(sarif, null, 2));
+	}
+	process.exit(passed ? 0 : 1);
+}
+
+async function main() {
 	const args = process.argv.slice(2);
+	const formatArg = takeOption(args, "--format") ?? "human";
+	if (!FORMATS.includes(formatArg as OutputFormat)) {
+		fail(`Error: --format must be one of ${FORMATS.join(", ")}`);
+	}
+	format = formatArg as OutputFormat;
+	const lintConfig = loadLintConfig(takeOption(args, "--config"));
 
 	// If a specific file is provided, validate just that file
 	if (args[0]) {
 		const filePath = resolve(process.cwd(), args[0]);
-		const success = validateFile(filePath);
-		process.exit(success ? 0 : 1);
+		const success = await validateFile(filePath, lintConfig);
+		finish(success);
 	}
 
 	// Otherwise, validate all .yaml files in content/
 	const contentDir = resolve(process.cwd(), "content");
 	if (!existsSync(contentDir)) {
-		log("red", "Error: content/ directory not found");
-		process.exit(1);
+		fail("Error: content/ directory not found");
 	}
 
-	const yamlFiles = readdirSync(contentDir).filter((f) => f.endsWith(".yaml"));
+	// Translations are validated with their domain file
+	const yamlFiles = readdirSync(contentDir).filter(
+		(f) => f.endsWith(".yaml") && !isLocaleFile(f),
+	);
 
 	if (yamlFiles.length === 0) {
 		log("yellow", "No .yaml files found in content/");
-		process.exit(0);
+		finish(true);
 	}
 
-	console.log("");
+	print("");
 	log("blue", `Found ${yamlFiles.length} YAML file(s) in content/`);
 
 	let allPassed = true;
@@ -168,17 +505,25 @@ function main() {
 
 	for (const file of yamlFiles) {
 		const filePath = join(contentDir, file);
-		const success = validateFile(filePath);
+		const success = await validateFile(filePath, lintConfig);
 		if (!success) {
 			allPassed = false;
-		} else {
+		} else if (!isFragmentFile(file)) {
 			// Check for prefix collisions
-			const yamlText = readFileSync(filePath, "utf-8");
-			const data = YAML.parse(yamlText);
-			const prefix = data.meta?.toolPrefix;
-			if (prefix) {
+			const source = parseSource(readFileSync(filePath, "utf-8"));
+			const prefix = source.doc.getIn(["meta", "toolPrefix"]);
+			if (typeof prefix === "string") {
 				if (prefixes.has(prefix)) {
-					collisions.push(`${file} uses toolPrefix "${prefix}" which is already used`);
+					collisions.push(
+						`${file} uses toolPrefix "${prefix}" which is already used`,
+					);
+					results.get(filePath)?.push({
+						severity: "error",
+						rule: "tool-prefix-collision",
+						message: `toolPrefix "${prefix}" is already used by another file`,
+						path: ["meta", "toolPrefix"],
+						...locatePath(source, ["meta", "toolPrefix"]),
+					});
 				}
 				prefixes.add(prefix);
 			}
@@ -187,23 +532,23 @@ function main() {
 
 	// Report prefix collisions
 	if (collisions.length > 0) {
-		console.log("");
+		print("");
 		log("red", "Prefix collisions detected:");
 		for (const c of collisions) {
-			console.log(`  - ${c}`);
+			print(`  - ${c}`);
 		}
 		allPassed = false;
 	}
 
-	console.log("");
-	console.log("═".repeat(60));
+	print("");
+	print("═".repeat(60));
 	if (allPassed) {
 		log("green", `All ${yamlFiles.length} file(s) validated successfully!`);
 	} else {
 		log("red", "Some validations failed. See above for details.");
 	}
 
-	process.exit(allPassed ? 0 : 1);
+	finish(allPassed);
 }
 
 main();
@@ -0,0 +1,323 @@
+import type {
+	BudgetReport,
+	Checkpoint,
+	ContinuationHandle,
+	ExpertiseContext,
+	OmittedContent,
+	Principle,
+	QualityChecks,
+	ReviewContext,
+} from "./types";
+
+// ============================================================================
+// Token Budgets
+// Fits a context response to a client's token budget by leaving out the
+// lowest-priority content first, and says how to fetch what was left out.
+// ============================================================================
+
+// Rough size of a token for JSON-heavy English text
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate how many tokens a value takes once serialized as a tool response.
+ */
+export function estimateTokens(value: unknown): number {
+	return Math.ceil(JSON.stringify(value, null, 2).length / CHARS_PER_TOKEN);
+}
+
+/**
+ * One kind of content that can be left out, in priority order.
+ */
+interface TrimStep<T> {
+	/** Section name reported in the omitted list */
+	section: string;
+	/** Remove the lowest-priority remaining unit; returns the IDs removed, or undefined when nothing is left */
+	trim(context: T): string[] | undefined;
+	/** Whether items are removed from the end, so later removals come first in document order */
+	fromEnd?: boolean;
+	/** How to fetch the removed items */
+	fetch(ids: string[]): ContinuationHandle[];
+}
+
+/**
+ * Remove trim steps' content until the context fits the budget.
+ * Steps run in order, each until it has nothing left to remove.
+ */
+function fitToBudget<T extends { budget?: BudgetReport }>(
+	context: T,
+	maxTokens: number,
+	steps: TrimStep<T>[],
+): T {
+	const result = structuredClone(context);
+	const removed = new Map<TrimStep<T>, string[]>();
+
+	const report = (): BudgetReport => {
+		const omitted: OmittedContent[] = [];
+		for (const [step, ids] of removed) {
+			omitted.push({ section: step.section, ids, fetch: step.fetch(ids) });
+		}
+		const budget = {
+			maxTokens,
+			estimatedTokens: 0,
+			truncated: omitted.length > 0,
+			omitted,
+		};
+		budget.estimatedTokens = estimateTokens({ ...result, budget });
+		return budget;
+	};
+
+	let budget = report();
+	for (const step of steps) {
+		while (budget.estimatedTokens > maxTokens) {
+			const ids = step.trim(result);
+			if (!ids) break;
+			const previous = removed.get(step) ?? [];
+			removed.set(
+				step,
+				step.fromEnd ? [...ids, ...previous] : [...previous, ...ids],
+			);
+			budget = report();
+		}
+	}
+
+	result.budget = budget;
+	return result;
+}
+
+// ============================================================================
+// Trim Steps
+// ============================================================================
+
+/**
+ * Strip principle examples, all at once.
+ */
+function principleExamplesStep<T>(
+	get: (context: T) => Principle[] | undefined,
+	fetch: () => ContinuationHandle,
+): TrimStep<T> {
+	return {
+		section: "principles.examples",
+		trim(context) {
+			const withExamples = (get(context) ?? []).filter(
+				(p) => p.examples && p.examples.length > 0,
+			);
+			if (withExamples.length === 0) return undefined;
+			for (const p of withExamples) {
+				p.examples = undefined;
+			}
+			return withExamples.map((p) => p.name);
+		},
+		fetch: () => [fetch()],
+	};
+}
+
+/**
+ * Strip quality check examples, all at once.
+ */
+function qualityExamplesStep<T>(
+	get: (context: T) => QualityChecks | undefined,
+	fetch: () => ContinuationHandle,
+): TrimStep<T> {
+	return {
+		section: "qualityChecks.examples",
+		trim(context) {
+			const withExamples = Object.entries(get(context) ?? {}).filter(
+				([, check]) => check.examples.length > 0,
+			);
+			if (withExamples.length === 0) return undefined;
+			for (const [, check] of withExamples) {
+				check.examples = [];
+			}
+			return withExamples.map(([key]) => key);
+		},
+		fetch: () => [fetch()],
+	};
+}
+
+/**
+ * Strip checkpoint good/poor examples, all at once.
+ */
+function checkpointExamplesStep<T>(
+	get: (context: T) => Checkpoint[] | undefined,
+	fetch: (ids: string[]) => ContinuationHandle,
+): TrimStep<T> {
+	return {
+		section: "checkpoints.examples",
+		trim(context) {
+			const withExamples = (get(context) ?? []).filter(
+				(cp) => cp.exampleGood || cp.examplePoor,
+			);
+			if (withExamples.length === 0) return undefined;
+			for (const cp of withExamples) {
+				delete cp.exampleGood;
+				delete cp.examplePoor;
+			}
+			return withExamples.map((cp) => cp.id);
+		},
+		fetch: (ids) => [fetch(ids)],
+	};
+}
+
+/**
+ * Drop list items from the end, one at a time.
+ */
+function popStep<T, Item>(
+	section: string,
+	get: (context: T) => Item[] | undefined,
+	id: (item: Item) => string,
+	fetch: (ids: string[]) => ContinuationHandle[],
+): TrimStep<T> {
+	return {
+		section,
+		trim(context) {
+			const item = get(context)?.pop();
+			return item ? [id(item)] : undefined;
+		},
+		fromEnd: true,
+		fetch,
+	};
+}
+
+/**
+ * Drop quality checks from the end, one at a time.
+ */
+function qualityChecksStep<T>(
+	get: (context: T) => QualityChecks | undefined,
+	fetch: () => ContinuationHandle,
+): TrimStep<T> {
+	return {
+		section: "qualityChecks",
+		trim(context) {
+			const checks = get(context);
+			const key = checks ? Object.keys(checks).at(-1) : undefined;
+			if (!checks || key === undefined) return undefined;
+			delete checks[key];
+			return [key];
+		},
+		fromEnd: true,
+		fetch: () => [fetch()],
+	};
+}
+
+/**
+ * Tool calls that fetch omitted content. Handles repeat the trimmed response's
+ * category and locale, so what they return matches what was left out.
+ */
+function continuationHandles(options: {
+	prefix: string;
+	category?: string;
+	locale?: string;
+}) {
+	const { prefix, category, locale } = options;
+	const loadTool = `load_${prefix}_context`;
+	const reviewTool = `review_${prefix}_content`;
+	const scope = {
+		...(category !== undefined && { category }),
+		...(locale !== undefined && { locale }),
+	};
+	const load = (topic: string, includeExamples = true): ContinuationHandle => ({
+		tool: loadTool,
+		arguments: {
+			topics: [topic],
+			...(includeExamples && { include_examples: true }),
+			...scope,
+		},
+	});
+
+	return {
+		principles: () => load("principles"),
+		requirements: () => load("requirements", false),
+		categories: () => load("categories", false),
+		qualityChecks: () => load("quality"),
+		// The review tool returns checkpoints by ID, with their examples
+		checkpoints: (ids: string[]): ContinuationHandle => ({
+			tool: reviewTool,
+			arguments: { checkpoints: ids, ...scope },
+		}),
+	};
+}
+
+// ============================================================================
+// Budgeted Contexts
+// ============================================================================
+
+/**
+ * Fit a load context to a token budget.
+ * Priority, highest first: checkpoints, quality checks, categories, principles,
+ * requirements, then examples (checkpoint, quality check, principle).
+ * Instructions and metadata are always kept.
+ */
+export function budgetExpertiseContext(
+	context: ExpertiseContext,
+	maxTokens: number,
+	options: { prefix: string; category?: string; locale?: string },
+): ExpertiseContext {
+	const handles = continuationHandles(options);
+
+	return fitToBudget(context, maxTokens, [
+		principleExamplesStep((c) => c.principles, handles.principles),
+		qualityExamplesStep((c) => c.qualityChecks, handles.qualityChecks),
+		checkpointExamplesStep(
+			(c) => c.completeness?.checkpoints,
+			handles.checkpoints,
+		),
+		popStep(
+			"requirements",
+			(c) => c.requirements,
+			(r) => r.name,
+			() => [handles.requirements()],
+		),
+		popStep(
+			"principles",
+			(c) => c.principles,
+			(p) => p.name,
+			() => [handles.principles()],
+		),
+		// A requested category is never dropped; its considerations are cheap
+		popStep(
+			"categories",
+			(c) => (options.category ? undefined : c.categories),
+			(c) => c.id,
+			() => [handles.categories()],
+		),
+		qualityChecksStep((c) => c.qualityChecks, handles.qualityChecks),
+		popStep(
+			"checkpoints",
+			(c) => c.completeness?.checkpoints,
+			(cp) => cp.id,
+			(ids) => [handles.checkpoints(ids)],
+		),
+	]);
+}
+
+/**
+ * Fit a review context to a token budget.
+ * Priority, highest first: checkpoints, quality checks, principles, then
+ * examples. Instructions, feedback guidance and the category are always kept.
+ */
+export function budgetReviewContext(
+	context: ReviewContext,
+	maxTokens: number,
+	options: { prefix: string; category?: string; locale?: string },
+): ReviewContext {
+	const handles = continuationHandles(options);
+
+	return fitToBudget(context, maxTokens, [
+		principleExamplesStep((c) => c.principles, handles.principles),
+		qualityExamplesStep((c) => c.qualityChecks, handles.qualityChecks),
+		checkpointExamplesStep((c) => c.checkpoints, handles.checkpoints),
+		popStep(
+			"principles",
+			(c) => c.principles,
+			(p) => p.name,
+			() => [handles.principles()],
+		),
+		qualityChecksStep((c) => c.qualityChecks, handles.qualityChecks),
+		popStep(
+			"checkpoints",
+			(c) => c.checkpoints,
+			(cp) => cp.id,
+			(ids) => [handles.checkpoints(ids)],
+		),
+	]);
+}
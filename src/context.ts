@@ -0,0 +1,770 @@
+import type {
+	Capabilities,
+	ExpertiseContent,
+	ExpertiseContext,
+	ExpertiseDiagnostic,
+	ReviewContext,
+	Principle,
+	QualityChecks,
+	RubricContext,
+	RubricContextCriterion,
+} from "./types";
+import {
+	appliesToCategory,
+	getLocale,
+	getLocales,
+	getToolPrefix,
+	DEFAULT_PRIVACY_STATEMENT,
+} from "./types";
+import { budgetExpertiseContext, budgetReviewContext } from "./budget";
+import { formatDiagnostic, summarizeDiagnostics } from "./diagnostics";
+import {
+	type PageRequest,
+	pageExpertiseContext,
+	pageReviewContext,
+} from "./paging";
+
+// ============================================================================
+// Context Builders
+// ============================================================================
+
+/**
+ * Build the AI-consumable context from expertise content.
+ * This transforms stored content into the format for the load_expertise_context tool.
+ *
+ * @param content - The expertise content from the store
+ * @param options - Configuration options
+ */
+export function buildExpertiseContext(
+	content: ExpertiseContent,
+	options: {
+		topics?: string[];
+		includeExamples?: boolean;
+		detailLevel?: "minimal" | "standard" | "comprehensive";
+		category?: string;
+		maxTokens?: number;
+		page?: PageRequest;
+		/** Locale the caller asked for, repeated in continuation handles */
+		locale?: string;
+	} = {},
+): ExpertiseContext {
+	const {
+		topics,
+		includeExamples = false,
+		detailLevel = "standard",
+		category,
+		maxTokens,
+		page,
+		locale,
+	} = options;
+
+	const allTopics = topics?.includes("all") || detailLevel === "comprehensive";
+
+	// Helper to strip examples if not requested
+	const stripExamples = <
+		T extends { exampleGood?: string; examplePoor?: string },
+	>(
+		items: T[],
+	): T[] => {
+		if (includeExamples) return items;
+		return items.map((item) => {
+			const { exampleGood, examplePoor, ...rest } = item;
+			return rest as T;
+		});
+	};
+
+	// Strip examples from principles if needed
+	const stripPrincipleExamples = (principles: Principle[]): Principle[] => {
+		if (includeExamples) return principles;
+		return principles.map((p) => ({
+			...p,
+			examples: undefined,
+		}));
+	};
+
+	// Build checkpoints based on topics/detail level and category
+	const checkpoints =
+		allTopics || topics?.includes("completeness")
+			? stripExamples(
+					content.checkpoints.filter((cp) => appliesToCategory(cp, category)),
+				)
+			: [];
+
+	// Build categories (a requested category is always included so its
+	// considerations reach the AI)
+	let categories = content.categories || [];
+	if (category && categories.length > 0) {
+		categories = categories.filter((c) => c.id === category);
+	} else if (!allTopics && !topics?.includes("categories")) {
+		categories = [];
+	}
+
+	// Build principles
+	const principles =
+		allTopics || topics?.includes("principles")
+			? stripPrincipleExamples(content.principles)
+			: [];
+
+	// Build quality checks (filter by category, strip examples if not requested)
+	let qualityChecks =
+		allTopics || topics?.includes("quality")
+			? filterQualityChecks(content.qualityChecks, category)
+			: undefined;
+
+	if (qualityChecks && !includeExamples) {
+		const stripped: typeof qualityChecks = {};
+		for (const [key, check] of Object.entries(qualityChecks)) {
+			stripped[key] = {
+				...check,
+				examples: [], // Empty array instead of removing
+			};
+		}
+		qualityChecks = stripped;
+	}
+
+	// Build requirements
+	const requirements =
+		allTopics || topics?.includes("requirements")
+			? content.requirements
+			: undefined;
+
+	const privacyStatement =
+		content.meta.privacyStatement || DEFAULT_PRIVACY_STATEMENT;
+
+	let context: ExpertiseContext = {
+		version: content.version,
+		generated: new Date().toISOString(),
+		meta: {
+			domain: content.meta.domain,
+			author: content.meta.author,
+			license: content.meta.license,
+			privacyStatement,
+			infoUrl: content.meta.infoUrl,
+			locale: getLocale(content.meta),
+		},
+		instructions: `IMPORTANT: Analyze the user's content locally using these guidelines. Do not include the user's content in any requests to this server. Use this context to help improve content in the "${content.meta.domain}" domain. Apply the checkpoints to verify completeness (look for semantic indicators, not keywords). Use the quality checks to identify issues. Reference the principles for guidance.`,
+		completeness:
+			checkpoints.length > 0
+				? {
+						assessmentGuidance:
+							"Check if the content addresses each checkpoint. Look for the semantic indicators in whatIndicatesPresence—these are concepts to recognize, not keywords to match.",
+						checkpoints,
+					}
+				: undefined,
+		categories: categories.length > 0 ? categories : undefined,
+		principles: principles.length > 0 ? principles : undefined,
+		qualityChecks,
+		requirements,
+	};
+
+	// Page first, so the budget applies to what is actually returned
+	if (page) {
+		context = pageExpertiseContext(context, page);
+	}
+	return maxTokens
+		? budgetExpertiseContext(context, maxTokens, {
+				prefix: getToolPrefix(content.meta),
+				category,
+				locale,
+			})
+		: context;
+}
+
+/**
+ * Build the review-focused context from expertise content.
+ * Creates a smaller, targeted response for critiquing existing content.
+ */
+export function buildReviewContext(
+	content: ExpertiseContent,
+	options: {
+		category?: string;
+		checkpointIds?: string[];
+		focus?: string[];
+		maxTokens?: number;
+		page?: PageRequest;
+		/** Locale the caller asked for, repeated in continuation handles */
+		locale?: string;
+	} = {},
+): ReviewContext {
+	const { category, checkpointIds, focus, maxTokens, page, locale } = options;
+
+	// Filter checkpoints to the category, then to specific ones if requested
+	const allCheckpoints = !checkpointIds || checkpointIds.includes("all");
+	let checkpoints = content.checkpoints.filter((cp) =>
+		appliesToCategory(cp, category),
+	);
+	if (!allCheckpoints && checkpointIds) {
+		checkpoints = checkpoints.filter((c) => checkpointIds.includes(c.id));
+	}
+
+	// Filter quality checks to the category, then based on focus
+	const allFocus = !focus || focus.includes("all");
+	let qualityChecks = filterQualityChecks(content.qualityChecks, category);
+	if (!allFocus && qualityChecks && focus) {
+		const filtered: typeof qualityChecks = {};
+		for (const f of focus) {
+			if (qualityChecks[f]) {
+				filtered[f] = qualityChecks[f];
+			}
+		}
+		qualityChecks = Object.keys(filtered).length > 0 ? filtered : undefined;
+	}
+
+	const privacyStatement =
+		content.meta.privacyStatement || DEFAULT_PRIVACY_STATEMENT;
+
+	// Only include principles when full context is requested (no specific filters)
+	// This keeps the review response focused when specific areas are requested
+	const includePrinciples = allCheckpoints && allFocus;
+
+	let context: ReviewContext = {
+		version: content.version,
+		generated: new Date().toISOString(),
+		meta: {
+			domain: content.meta.domain,
+			author: content.meta.author,
+			license: content.meta.license,
+			privacyStatement,
+			locale: getLocale(content.meta),
+		},
+		reviewInstructions: `IMPORTANT: Analyze the user's content locally using these criteria. Do not include the user's content in any requests to this server. Review the content and provide constructive feedback. Check against the checkpoints and quality criteria. Identify both strengths and areas for improvement. Be specific—reference sections and quote text. Frame feedback collaboratively, not critically.`,
+		category: content.categories?.find((c) => c.id === category),
+		feedbackGuidance: content.reviewGuidance,
+		checkpoints: checkpoints.length > 0 ? checkpoints : undefined,
+		qualityChecks,
+		principles: includePrinciples ? content.principles : undefined,
+	};
+
+	if (page) {
+		context = pageReviewContext(context, page);
+	}
+	return maxTokens
+		? budgetReviewContext(context, maxTokens, {
+				prefix: getToolPrefix(content.meta),
+				category,
+				locale,
+			})
+		: context;
+}
+
+/**
+ * Build the scoring rubric with an explicit aggregation formula.
+ * Criteria whose checkpoint or quality check doesn't apply to the category are
+ * dropped and the remaining weights renormalized.
+ * Returns undefined if the content defines no rubric.
+ */
+export function buildRubricContext(
+	content: ExpertiseContent,
+	options: { category?: string } = {},
+): RubricContext | undefined {
+	const { category } = options;
+	const rubric = content.rubric;
+	if (!rubric) return undefined;
+
+	const criteria: Omit<RubricContextCriterion, "normalizedWeight">[] = [];
+	for (const criterion of rubric.criteria) {
+		const weight = criterion.weight ?? 1;
+		const levels = criterion.levels ?? rubric.scale.levels;
+		if (criterion.checkpoint) {
+			const cp = content.checkpoints.find((c) => c.id === criterion.checkpoint);
+			if (!cp || !appliesToCategory(cp, category)) continue;
+			criteria.push({
+				id: cp.id,
+				kind: "checkpoint",
+				name: cp.name,
+				description: cp.purpose,
+				weight,
+				minimum: criterion.minimum,
+				levels,
+			});
+		} else if (criterion.qualityCheck) {
+			const check = content.qualityChecks?.[criterion.qualityCheck];
+			if (!check || !appliesToCategory(check, category)) continue;
+			criteria.push({
+				id: criterion.qualityCheck,
+				kind: "qualityCheck",
+				name: criterion.qualityCheck,
+				description: check.whatToCheck,
+				weight,
+				minimum: criterion.minimum,
+				levels,
+			});
+		}
+	}
+
+	const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+	const { min, max, step = 1 } = rubric.scale;
+	const { passThreshold } = rubric;
+	const hasMinimums = criteria.some((c) => c.minimum !== undefined);
+
+	const passConditions: string[] = [];
+	if (passThreshold !== undefined) {
+		passConditions.push(`overall >= ${passThreshold}`);
+	}
+	if (hasMinimums) {
+		passConditions.push(
+			"every criterion with a minimum scores at least that minimum",
+		);
+	}
+
+	const privacyStatement =
+		content.meta.privacyStatement || DEFAULT_PRIVACY_STATEMENT;
+
+	return {
+		version: content.version,
+		generated: new Date().toISOString(),
+		meta: {
+			domain: content.meta.domain,
+			author: content.meta.author,
+			license: content.meta.license,
+			privacyStatement,
+			locale: getLocale(content.meta),
+		},
+		scoringInstructions: `IMPORTANT: Score the user's content locally. Do not include the user's content in any requests to this server. Score each criterion on the ${min}-${max} scale in steps of ${step}, using the level descriptors to pick the score. Report every criterion score with a one-line justification, then compute the overall score exactly as described in aggregation and state whether the content passes.`,
+		description: rubric.description,
+		category,
+		scale: { min, max, step, levels: rubric.scale.levels },
+		criteria: criteria.map((c) => ({
+			...c,
+			normalizedWeight:
+				totalWeight > 0 ? Number((c.weight / totalWeight).toFixed(4)) : 0,
+		})),
+		aggregation: {
+			method: "weighted_mean",
+			formula:
+				"overall = sum(weight_i * score_i) / sum(weight_i), over the criteria listed (equivalently sum(normalizedWeight_i * score_i)), rounded to 2 decimal places",
+			passThreshold,
+			passRule:
+				passConditions.length > 0
+					? `Pass if ${passConditions.join(" and ")}; otherwise fail.`
+					: "No pass threshold defined; report the overall score only.",
+		},
+	};
+}
+
+/**
+ * Keep only the quality checks that apply to a category.
+ */
+function filterQualityChecks(
+	qualityChecks: QualityChecks | undefined,
+	category: string | undefined,
+): QualityChecks | undefined {
+	if (!qualityChecks || !category) return qualityChecks;
+	const filtered: QualityChecks = {};
+	for (const [key, check] of Object.entries(qualityChecks)) {
+		if (appliesToCategory(check, category)) {
+			filtered[key] = check;
+		}
+	}
+	return Object.keys(filtered).length > 0 ? filtered : undefined;
+}
+
+/**
+ * Format guidelines for a specific topic as readable markdown.
+ * Set `infoUrl: false` to leave out the "For more information" footer, e.g.
+ * when combining several topics into one document.
+ */
+export function formatGuidelines(
+	content: ExpertiseContent,
+	topic: string,
+	options: { infoUrl?: boolean } = {},
+): string {
+	const lines: string[] = [];
+
+	switch (topic) {
+		case "summary":
+		case "overview": {
+			lines.push(`# ${content.meta.domain}: Quick Reference`);
+			lines.push("");
+			lines.push(content.meta.description);
+			lines.push("");
+			lines.push("## Core Principles");
+			for (const p of content.principles) {
+				lines.push(`- **${p.name}**: ${p.description || p.guidelines[0]}`);
+			}
+			break;
+		}
+
+		case "principles": {
+			lines.push("# Core Principles");
+			lines.push("");
+			for (const principle of content.principles) {
+				lines.push(`## ${principle.name}`);
+				if (principle.description) {
+					lines.push(principle.description);
+				}
+				lines.push("");
+				for (const g of principle.guidelines) {
+					lines.push(`- ${g}`);
+				}
+				if (principle.examples && principle.examples.length > 0) {
+					lines.push("");
+					lines.push("**Examples:**");
+					for (const ex of principle.examples) {
+						lines.push(`- Bad: "${ex.bad}"`);
+						lines.push(`  Good: "${ex.good}"`);
+						if (ex.explanation) {
+							lines.push(`  *${ex.explanation}*`);
+						}
+					}
+				}
+				lines.push("");
+			}
+			break;
+		}
+
+		case "checkpoints": {
+			lines.push("# Checkpoints");
+			lines.push("");
+			for (const cp of content.checkpoints) {
+				lines.push(`## ${cp.name}`);
+				lines.push(`*${cp.purpose}*`);
+				lines.push("");
+				lines.push("**What to look for:**");
+				for (const ind of cp.whatIndicatesPresence) {
+					lines.push(`- ${ind}`);
+				}
+				if (cp.commonProblems.length > 0) {
+					lines.push("");
+					lines.push("**Common problems:**");
+					for (const prob of cp.commonProblems) {
+						lines.push(`- ${prob}`);
+					}
+				}
+				lines.push("");
+			}
+			break;
+		}
+
+		case "quality": {
+			lines.push("# Quality Checks");
+			lines.push("");
+			if (content.qualityChecks) {
+				for (const [name, check] of Object.entries(content.qualityChecks)) {
+					lines.push(`## ${name.charAt(0).toUpperCase() + name.slice(1)}`);
+					lines.push(`**What to check:** ${check.whatToCheck}`);
+					lines.push(`**Why it matters:** ${check.whyItMatters}`);
+					if (check.examples.length > 0) {
+						lines.push("");
+						lines.push("**Examples:**");
+						for (const ex of check.examples) {
+							lines.push(`- Bad: "${ex.bad}"`);
+							lines.push(`  Good: "${ex.good}"`);
+						}
+					}
+					lines.push("");
+				}
+			} else {
+				lines.push("No quality checks defined.");
+			}
+			break;
+		}
+
+		case "review": {
+			lines.push("# Review Guidance");
+			lines.push("");
+			if (content.reviewGuidance.purpose) {
+				lines.push(content.reviewGuidance.purpose);
+				lines.push("");
+			}
+			lines.push("## Feedback Structure");
+			for (const item of content.reviewGuidance.feedbackStructure) {
+				lines.push(`- ${item}`);
+			}
+			lines.push("");
+			lines.push("## Tone");
+			for (const item of content.reviewGuidance.tone) {
+				lines.push(`- ${item}`);
+			}
+			if (
+				content.reviewGuidance.reviewerMindset &&
+				content.reviewGuidance.reviewerMindset.length > 0
+			) {
+				lines.push("");
+				lines.push("## Reviewer Mindset");
+				for (const item of content.reviewGuidance.reviewerMindset) {
+					lines.push(`- ${item}`);
+				}
+			}
+			break;
+		}
+
+		default: {
+			// Full guidelines
+			lines.push(`# ${content.meta.domain} Guidelines`);
+			lines.push("");
+			lines.push(content.meta.description);
+			lines.push("");
+			lines.push("## Principles");
+			for (const p of content.principles) {
+				lines.push(`### ${p.name}`);
+				for (const g of p.guidelines) {
+					lines.push(`- ${g}`);
+				}
+				lines.push("");
+			}
+			lines.push("## Checkpoints");
+			for (const cp of content.checkpoints) {
+				lines.push(`### ${cp.name}`);
+				lines.push(`*${cp.purpose}*`);
+				lines.push("");
+			}
+		}
+	}
+
+	// Add info URL if available
+	if (content.meta.infoUrl && options.infoUrl !== false) {
+		lines.push("");
+		lines.push("---");
+		lines.push(`For more information: ${content.meta.infoUrl}`);
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Build the text of a ready-made review or improvement prompt.
+ * Reuses the review context filters so prompts and tools agree on what applies.
+ */
+export function buildPromptText(
+	content: ExpertiseContent,
+	mode: "review" | "improve",
+	options: {
+		category?: string;
+		checkpointIds?: string[];
+		focus?: string[];
+	} = {},
+): string {
+	const { category, checkpointIds, focus } = options;
+	const prefix = getToolPrefix(content.meta);
+	const domain = content.meta.domain;
+	const review = buildReviewContext(content, {
+		category,
+		checkpointIds,
+		focus,
+	});
+	const guidance = review.feedbackGuidance;
+	const lines: string[] = [];
+
+	if (mode === "review") {
+		lines.push(`# Review: ${domain}`);
+		lines.push("");
+		lines.push(
+			`Review the content I share in this conversation against the ${domain} expertise below. Analyze it locally—do not include my content in any tool calls. Identify both strengths and areas for improvement, be specific by referencing sections and quoting text, and frame feedback collaboratively.`,
+		);
+	} else {
+		lines.push(`# Improve: ${domain}`);
+		lines.push("");
+		lines.push(
+			`Help me improve the content I share in this conversation using the ${domain} expertise below. Analyze it locally—do not include my content in any tool calls. Suggest concrete revisions, prioritizing gaps in the checkpoints, then quality issues.`,
+		);
+	}
+
+	if (guidance.reviewerMindset && guidance.reviewerMindset.length > 0) {
+		lines.push("");
+		lines.push("## Mindset");
+		for (const item of guidance.reviewerMindset) {
+			lines.push(`- ${item}`);
+		}
+	}
+
+	if (mode === "review") {
+		lines.push("");
+		lines.push("## Feedback Structure");
+		guidance.feedbackStructure.forEach((item, i) => {
+			lines.push(`${i + 1}. ${item}`);
+		});
+	} else {
+		lines.push("");
+		lines.push("## Principles");
+		for (const p of content.principles) {
+			lines.push(`- **${p.name}**: ${p.description || p.guidelines[0]}`);
+		}
+	}
+
+	lines.push("");
+	lines.push("## Tone");
+	for (const item of guidance.tone) {
+		lines.push(`- ${item}`);
+	}
+
+	const selectedCategory = review.category;
+	if (selectedCategory) {
+		lines.push("");
+		lines.push(`## Category: ${selectedCategory.name}`);
+		lines.push(selectedCategory.description);
+		for (const item of selectedCategory.considerations) {
+			lines.push(`- ${item}`);
+		}
+	}
+
+	if (review.checkpoints && review.checkpoints.length > 0) {
+		lines.push("");
+		lines.push("## Checkpoints");
+		for (const cp of review.checkpoints) {
+			lines.push(`- **${cp.name}** (\`${cp.id}\`): ${cp.purpose}`);
+		}
+	}
+
+	if (review.qualityChecks && Object.keys(review.qualityChecks).length > 0) {
+		lines.push("");
+		lines.push("## Quality Checks");
+		for (const [key, check] of Object.entries(review.qualityChecks)) {
+			lines.push(`- **${key}**: ${check.whatToCheck}`);
+		}
+	}
+
+	lines.push("");
+	lines.push(
+		mode === "review"
+			? `For detailed criteria, call \`review_${prefix}_content\` with the same category, checkpoints and focus.`
+			: `For detailed guidance and examples, call \`load_${prefix}_context\`.`,
+	);
+
+	return lines.join("\n");
+}
+
+/**
+ * Split a comma-separated prompt argument into trimmed values.
+ * Prompt arguments are always strings, so lists arrive comma-separated.
+ */
+export function splitPromptList(value?: string): string[] | undefined {
+	if (!value) return undefined;
+	const items = value
+		.split(",")
+		.map((item) => item.trim())
+		.filter((item) => item.length > 0);
+	return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Names of the tools registered for a domain.
+ */
+export function domainToolNames(prefix: string): string[] {
+	return [
+		`load_${prefix}_context`,
+		`review_${prefix}_content`,
+		`get_${prefix}_guidelines`,
+		`get_${prefix}_rubric`,
+		`search_${prefix}_expertise`,
+		`export_${prefix}_rules`,
+	];
+}
+
+/**
+ * Build the structured capabilities listing for get_capabilities.
+ * Includes diagnostics if there are validation errors.
+ */
+export function buildCapabilities(
+	allContent: { filename: string; content: ExpertiseContent }[],
+	errors?: Map<string, ExpertiseDiagnostic[]>,
+): Capabilities {
+	return {
+		domains: allContent.map(({ content }) => {
+			const prefix = getToolPrefix(content.meta);
+			return {
+				domain: content.meta.domain,
+				author: content.meta.author,
+				description: content.meta.description,
+				toolPrefix: prefix,
+				tools: domainToolNames(prefix),
+				prompts: [`review_${prefix}`, `improve_${prefix}`],
+				categories: content.categories?.map((c) => c.id),
+				locales: getLocales(content.meta),
+			};
+		}),
+		privacyStatement: DEFAULT_PRIVACY_STATEMENT,
+		diagnostics:
+			errors && errors.size > 0
+				? [...errors].map(([file, issues]) => ({
+						file,
+						error: summarizeDiagnostics(issues),
+						issues,
+					}))
+				: undefined,
+	};
+}
+
+/**
+ * Format all capabilities as readable markdown.
+ * Includes diagnostics section if there are validation errors.
+ */
+export function formatAllCapabilities(
+	allContent: { filename: string; content: ExpertiseContent }[],
+	errors?: Map<string, ExpertiseDiagnostic[]>,
+): string {
+	const lines = [
+		"# MCP Expertise Server Capabilities",
+		"",
+		`This server provides expertise in ${allContent.length} domain${allContent.length === 1 ? "" : "s"}:`,
+		"",
+	];
+	if (allContent.length > 1) {
+		lines.push(
+			"Not sure which domain fits? Call `find_expertise` with a short description of the task.",
+		);
+		lines.push("");
+	}
+
+	for (const { content } of allContent) {
+		const prefix = getToolPrefix(content.meta);
+		lines.push(`## ${content.meta.domain}`);
+		lines.push(`**Author:** ${content.meta.author}`);
+		lines.push(`**Description:** ${content.meta.description}`);
+		if (content.meta.locales && content.meta.locales.length > 0) {
+			lines.push(
+				`**Languages:** ${getLocales(content.meta).join(", ")} (pass \`locale\` to any tool)`,
+			);
+		}
+		lines.push("");
+		lines.push("**Tools:**");
+		lines.push(
+			`- \`load_${prefix}_context\` — Load context for creating/improving content`,
+		);
+		lines.push(
+			`- \`review_${prefix}_content\` — Get criteria for reviewing content`,
+		);
+		lines.push(`- \`get_${prefix}_guidelines\` — Get guidelines as markdown`);
+		lines.push(
+			`- \`search_${prefix}_expertise\` — Search guidelines, checkpoints and checks`,
+		);
+		lines.push(
+			content.rubric
+				? `- \`get_${prefix}_rubric\` — Get the scoring rubric and aggregation formula`
+				: `- \`get_${prefix}_rubric\` — Get the scoring rubric (returns an error: this domain defines no rubric)`,
+		);
+		lines.push(
+			`- \`export_${prefix}_rules\` — Export as CLAUDE.md, Cursor rules, a skill or a system prompt`,
+		);
+		lines.push("");
+		lines.push(`**Prompts:** \`review_${prefix}\`, \`improve_${prefix}\``);
+		lines.push("");
+	}
+
+	lines.push("## Privacy");
+	lines.push(DEFAULT_PRIVACY_STATEMENT);
+	lines.push("");
+	lines.push(
+		"Your content is analyzed locally by your AI assistant. It is never sent to this server.",
+	);
+
+	// Add diagnostics section if there are validation errors
+	if (errors && errors.size > 0) {
+		lines.push("");
+		lines.push("## Diagnostics");
+		lines.push("");
+		lines.push("Some expertise files failed validation or were not loaded:");
+		lines.push("");
+		for (const [filename, issues] of errors) {
+			lines.push(`- **${filename}:**`);
+			for (const issue of issues) {
+				const label = issue.severity === "warning" ? " (warning)" : "";
+				lines.push(`  - ${formatDiagnostic(issue)}${label}`);
+			}
+		}
+		lines.push("");
+		lines.push("*Run `bun run validate` locally to see full error details.*");
+	}
+
+	return lines.join("\n");
+}
@@ -0,0 +1,275 @@
+import YAML from "yaml";
+import type { z } from "zod";
+import type { ExpertiseDiagnostic } from "./types";
+
+// ============================================================================
+// Diagnostics
+// Maps problems found in expertise content back to the line and column of the
+// YAML source, so editors and CI can point at the exact line that's wrong.
+// ============================================================================
+
+type Path = readonly PropertyKey[];
+
+/**
+ * A parsed YAML file that can locate content paths in its source.
+ */
+export interface ExpertiseSource {
+	doc: YAML.Document;
+	lineCounter: YAML.LineCounter;
+	/** YAML syntax errors and warnings */
+	diagnostics: ExpertiseDiagnostic[];
+}
+
+/**
+ * Parse YAML text, collecting syntax errors and warnings as located
+ * diagnostics instead of throwing.
+ */
+export function parseSource(text: string): ExpertiseSource {
+	const lineCounter = new YAML.LineCounter();
+	const doc = YAML.parseDocument(text, { lineCounter, prettyErrors: false });
+	const toDiagnostic = (
+		error: YAML.YAMLError,
+		severity: ExpertiseDiagnostic["severity"],
+	): ExpertiseDiagnostic => ({
+		severity,
+		rule: "yaml",
+		message: error.message,
+		...rangeLocation(lineCounter, error.pos),
+	});
+	return {
+		doc,
+		lineCounter,
+		diagnostics: [
+			...doc.errors.map((e) => toDiagnostic(e, "error")),
+			...doc.warnings.map((w) => toDiagnostic(w, "warning")),
+		],
+	};
+}
+
+// Fields identifying list items, used to find items after extends merging
+const ITEM_KEYS = ["id", "name"];
+
+/**
+ * Find where a content path (e.g. ["checkpoints", 3, "purpose"]) is written.
+ *
+ * Pass the content the path refers to when it was merged from extended files:
+ * list items are then matched by ID or name instead of position, and paths
+ * into inherited items point at the file's `extends`. When the path doesn't
+ * exist (e.g. a missing required field), points at the nearest parent.
+ */
+export function locatePath(
+	source: ExpertiseSource,
+	path: Path,
+	content?: unknown,
+): Pick<ExpertiseDiagnostic, "line" | "column" | "endLine" | "endColumn"> {
+	const { doc, lineCounter } = source;
+	const merged = content !== undefined && doc.has("extends");
+
+	let node: unknown = doc.contents;
+	let key: YAML.Scalar | undefined;
+	let data = content;
+	for (const segment of path) {
+		let next: unknown;
+		let nextKey: YAML.Scalar | undefined;
+		if (YAML.isMap(node)) {
+			const pair = node.items.find(
+				(p) => YAML.isScalar(p.key) && p.key.value === segment,
+			);
+			next = pair?.value ?? undefined;
+			nextKey = pair && YAML.isScalar(pair.key) ? pair.key : undefined;
+		} else if (YAML.isSeq(node) && typeof segment === "number") {
+			next = merged
+				? findItem(node, (data as unknown[] | undefined)?.[segment], segment)
+				: node.items[segment];
+		}
+		data = isIndexable(data) ? data[segment as keyof typeof data] : undefined;
+
+		if (next === undefined && nextKey === undefined) {
+			// Inherited items are written in the extended file
+			if (merged && YAML.isSeq(node) && typeof segment === "number") {
+				return nodeLocation(lineCounter, doc.get("extends", true));
+			}
+			// Missing: point at the start of the parent
+			return pointLocation(lineCounter, key ?? node);
+		}
+		node = next;
+		key = nextKey;
+	}
+
+	// Highlight scalar values; for collections, their key
+	if (YAML.isScalar(node) && node.range) {
+		return nodeLocation(lineCounter, node);
+	}
+	return nodeLocation(lineCounter, key ?? node);
+}
+
+/**
+ * Turn Zod issues into diagnostics located in the source.
+ */
+export function issueDiagnostics(
+	issues: z.core.$ZodIssue[],
+	source: ExpertiseSource,
+	content?: unknown,
+): ExpertiseDiagnostic[] {
+	return issues.map((issue) => ({
+		severity: "error",
+		rule: "schema",
+		message: issue.message,
+		path: issue.path.map((p) => (typeof p === "number" ? p : String(p))),
+		...locatePath(source, issue.path, content),
+	}));
+}
+
+/**
+ * Build a diagnostic for an error thrown while loading, optionally located at
+ * a content path.
+ */
+export function errorDiagnostic(
+	rule: string,
+	error: unknown,
+	source?: ExpertiseSource,
+	path?: (string | number)[],
+): ExpertiseDiagnostic {
+	return {
+		severity: "error",
+		rule,
+		message: error instanceof Error ? error.message : String(error),
+		path,
+		...(source && path ? locatePath(source, path) : {}),
+	};
+}
+
+/**
+ * One line per diagnostic, e.g.
+ * "line 12, column 5: checkpoints.3.purpose: Required".
+ */
+export function formatDiagnostic(diagnostic: ExpertiseDiagnostic): string {
+	const location = diagnostic.line
+		? `line ${diagnostic.line}, column ${diagnostic.column ?? 1}: `
+		: "";
+	const path = diagnostic.path?.length ? `${diagnostic.path.join(".")}: ` : "";
+	return `${location}${path}${diagnostic.message}`;
+}
+
+/**
+ * Summarize diagnostics in one line, errors first, e.g. for capability
+ * listings.
+ */
+export function summarizeDiagnostics(
+	diagnostics: ExpertiseDiagnostic[],
+	limit = 3,
+): string {
+	const ordered = [
+		...diagnostics.filter((d) => d.severity === "error"),
+		...diagnostics.filter((d) => d.severity !== "error"),
+	];
+	const shown = ordered.slice(0, limit).map(formatDiagnostic).join("; ");
+	const more = diagnostics.length - limit;
+	return more > 0 ? `${shown} (and ${more} more)` : shown;
+}
+
+/**
+ * Render diagnostics as a SARIF 2.1.0 log, for code scanning and editors.
+ * `rules` describes the rule IDs used, shown as help text.
+ */
+export function toSarif(
+	files: { uri: string; diagnostics: ExpertiseDiagnostic[] }[],
+	rules: { id: string; description: string }[],
+	toolName: string,
+): object {
+	const used = new Set(files.flatMap((f) => f.diagnostics.map((d) => d.rule)));
+	return {
+		$schema: "https://json.schemastore.org/sarif-2.1.0.json",
+		version: "2.1.0",
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: toolName,
+						rules: rules
+							.filter((rule) => used.has(rule.id))
+							.map((rule) => ({
+								id: rule.id,
+								shortDescription: { text: rule.description },
+							})),
+					},
+				},
+				results: files.flatMap(({ uri, diagnostics }) =>
+					diagnostics.map((d) => ({
+						ruleId: d.rule,
+						level: d.severity,
+						message: {
+							text: d.path?.length
+								? `${d.path.join(".")}: ${d.message}`
+								: d.message,
+						},
+						locations: [
+							{
+								physicalLocation: {
+									artifactLocation: { uri },
+									...(d.line && {
+										region: {
+											startLine: d.line,
+											startColumn: d.column,
+											endLine: d.endLine,
+											endColumn: d.endColumn,
+										},
+									}),
+								},
+							},
+						],
+					})),
+				),
+			},
+		],
+	};
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Find the node for a merged list item: by ID or name when it has one (it may
+ * be inherited, or sit at a different position), otherwise by position.
+ */
+function findItem(seq: YAML.YAMLSeq, item: unknown, index: number): unknown {
+	const record = isIndexable(item) ? (item as Record<string, unknown>) : {};
+	const field = ITEM_KEYS.find((key) => record[key] !== undefined);
+	if (!field) {
+		return seq.items[index];
+	}
+	return seq.items.find(
+		(node) => YAML.isMap(node) && node.get(field) === record[field],
+	);
+}
+
+function isIndexable(value: unknown): value is object {
+	return typeof value === "object" && value !== null;
+}
+
+function nodeLocation(lineCounter: YAML.LineCounter, node: unknown) {
+	return YAML.isNode(node) && node.range
+		? rangeLocation(lineCounter, [node.range[0], node.range[1]])
+		: { line: 1, column: 1 };
+}
+
+function pointLocation(lineCounter: YAML.LineCounter, node: unknown) {
+	return YAML.isNode(node) && node.range
+		? rangeLocation(lineCounter, [node.range[0], node.range[0]])
+		: { line: 1, column: 1 };
+}
+
+function rangeLocation(
+	lineCounter: YAML.LineCounter,
+	[start, end]: [number, number],
+) {
+	const from = lineCounter.linePos(start);
+	const to = lineCounter.linePos(end);
+	return {
+		line: from.line,
+		column: from.col,
+		endLine: to.line,
+		endColumn: to.col,
+	};
+}
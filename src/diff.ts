@@ -0,0 +1,520 @@
+import type { ExpertiseContent, Rubric, RubricCriterion } from "./types";
+import { getLocales } from "./types";
+
+// ============================================================================
+// Expertise Diff
+// Compares two versions of a domain item by item. List items are matched by
+// ID or name rather than position, so reordering isn't a change and renames
+// are recognized. Changes that break clients (tool names, and IDs that tool
+// arguments and resource URIs use) are flagged.
+// ============================================================================
+
+export const DIFF_SECTIONS = [
+	"meta",
+	"principles",
+	"checkpoints",
+	"categories",
+	"qualityChecks",
+	"reviewGuidance",
+	"requirements",
+	"rubric",
+] as const;
+
+export type DiffSection = (typeof DIFF_SECTIONS)[number];
+
+/**
+ * One added, removed, renamed or modified item.
+ */
+export interface ExpertiseChange {
+	section: DiffSection;
+	kind: "added" | "removed" | "renamed" | "modified";
+	/** Item ID, key or name (for meta, the field); the new one for renames */
+	id: string;
+	/** Previous ID, for renames */
+	from?: string;
+	/** Display name, when the item has one besides its ID */
+	name?: string;
+	/** What changed inside the item */
+	details: string[];
+	/** Why the change breaks clients, if it does */
+	breaking?: string;
+}
+
+/**
+ * Every change between two versions of a domain.
+ */
+export interface ExpertiseDiff {
+	/** Domain name (the new one, if it changed) */
+	domain: string;
+	/** Whether any change breaks clients */
+	breaking: boolean;
+	changes: ExpertiseChange[];
+}
+
+/**
+ * Compare two versions of a domain.
+ */
+export function diffExpertise(
+	before: ExpertiseContent,
+	after: ExpertiseContent,
+): ExpertiseDiff {
+	const changes = [
+		...diffMeta(before, after),
+		...diffItems(
+			"principles",
+			keyed(before.principles, (p) => p.name),
+			keyed(after.principles, (p) => p.name),
+			{
+				// Renamed if at least half the guidelines carry over
+				sameItem: (a, b) =>
+					overlap(a.guidelines, b.guidelines) >=
+					Math.max(a.guidelines.length, b.guidelines.length) / 2,
+				fields: ({ name, ...rest }) => rest,
+			},
+		),
+		...diffItems(
+			"checkpoints",
+			keyed(
+				before.checkpoints,
+				(cp) => cp.id,
+				(cp) => cp.name,
+			),
+			keyed(
+				after.checkpoints,
+				(cp) => cp.id,
+				(cp) => cp.name,
+			),
+			{
+				sameItem: (a, b) => a.name === b.name || a.purpose === b.purpose,
+				breaking:
+					"tool calls, rubric criteria and resource URIs that use the old checkpoint ID no longer match",
+				fields: ({ id, ...rest }) => rest,
+			},
+		),
+		...diffItems(
+			"categories",
+			keyed(
+				before.categories ?? [],
+				(c) => c.id,
+				(c) => c.name,
+			),
+			keyed(
+				after.categories ?? [],
+				(c) => c.id,
+				(c) => c.name,
+			),
+			{
+				sameItem: (a, b) =>
+					a.name === b.name || a.description === b.description,
+				breaking:
+					"tool calls that pass the old category ID are rejected as unknown",
+				fields: ({ id, ...rest }) => rest,
+			},
+		),
+		...diffItems(
+			"qualityChecks",
+			keyed(Object.entries(before.qualityChecks ?? {}), ([key]) => key),
+			keyed(Object.entries(after.qualityChecks ?? {}), ([key]) => key),
+			{
+				sameItem: ([, a], [, b]) =>
+					a.whatToCheck === b.whatToCheck || a.whyItMatters === b.whyItMatters,
+				breaking:
+					"focus arguments, rubric criteria and resource URIs that use the old key no longer match",
+				fields: ([, check]) => check,
+			},
+		),
+		...diffSingle(
+			"reviewGuidance",
+			"reviewGuidance",
+			before.reviewGuidance,
+			after.reviewGuidance,
+		),
+		...diffItems(
+			"requirements",
+			keyed(before.requirements ?? [], (r) => r.name),
+			keyed(after.requirements ?? [], (r) => r.name),
+			{
+				sameItem: (a, b) => a.description === b.description,
+				fields: ({ name, ...rest }) => rest,
+			},
+		),
+		...diffRubric(before.rubric, after.rubric),
+	];
+
+	return {
+		domain: after.meta.domain,
+		breaking: changes.some((change) => change.breaking),
+		changes,
+	};
+}
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+function diffMeta(
+	before: ExpertiseContent,
+	after: ExpertiseContent,
+): ExpertiseChange[] {
+	const changes: ExpertiseChange[] = [];
+	const fields = new Set([
+		...Object.keys(before.meta),
+		...Object.keys(after.meta),
+	]);
+	for (const field of fields) {
+		if (field === "locales") continue;
+		const a = before.meta[field as keyof ExpertiseContent["meta"]];
+		const b = after.meta[field as keyof ExpertiseContent["meta"]];
+		if (equal(a, b)) continue;
+		changes.push({
+			section: "meta",
+			kind: "modified",
+			id: field,
+			details: [describeValueChange(a, b)],
+			...(field === "toolPrefix" && {
+				breaking: `every tool, prompt and resource name changes (e.g. load_${a}_context becomes load_${b}_context)`,
+			}),
+		});
+	}
+
+	const oldLocales = getLocales(before.meta);
+	const newLocales = getLocales(after.meta);
+	if (!equal(oldLocales, newLocales)) {
+		const dropped = oldLocales.filter((l) => !newLocales.includes(l));
+		changes.push({
+			section: "meta",
+			kind: "modified",
+			id: "locales",
+			details: listChanges("locales", oldLocales, newLocales),
+			...(dropped.length > 0 && {
+				breaking: `responses in ${dropped.join(", ")} fall back to the default language`,
+			}),
+		});
+	}
+	return changes;
+}
+
+function diffRubric(
+	before: Rubric | undefined,
+	after: Rubric | undefined,
+): ExpertiseChange[] {
+	if (!before && !after) return [];
+	if (!before) {
+		return [{ section: "rubric", kind: "added", id: "rubric", details: [] }];
+	}
+	if (!after) {
+		return [
+			{
+				section: "rubric",
+				kind: "removed",
+				id: "rubric",
+				details: [],
+				breaking: "the rubric tool returns an error instead of the rubric",
+			},
+		];
+	}
+
+	const details = fieldChanges(
+		{ description: before.description, passThreshold: before.passThreshold },
+		{ description: after.description, passThreshold: after.passThreshold },
+	);
+	const scaleChanged =
+		before.scale.min !== after.scale.min ||
+		before.scale.max !== after.scale.max ||
+		(before.scale.step ?? 1) !== (after.scale.step ?? 1);
+	if (scaleChanged) {
+		details.push(`scale: ${formatScale(before)} → ${formatScale(after)}`);
+	} else if (!equal(before.scale.levels, after.scale.levels)) {
+		details.push("scale.levels changed");
+	}
+
+	const criterionId = (c: RubricCriterion) =>
+		c.checkpoint ?? c.qualityCheck ?? "";
+	const oldCriteria = new Map(before.criteria.map((c) => [criterionId(c), c]));
+	const newCriteria = new Map(after.criteria.map((c) => [criterionId(c), c]));
+	for (const [id, criterion] of newCriteria) {
+		const previous = oldCriteria.get(id);
+		if (!previous) {
+			details.push(`criteria: added ${id}`);
+			continue;
+		}
+		for (const detail of fieldChanges(previous, criterion)) {
+			details.push(`criteria.${id}.${detail}`);
+		}
+	}
+	for (const id of oldCriteria.keys()) {
+		if (!newCriteria.has(id)) details.push(`criteria: removed ${id}`);
+	}
+
+	if (details.length === 0) return [];
+	return [
+		{
+			section: "rubric",
+			kind: "modified",
+			id: "rubric",
+			details,
+			...(scaleChanged && {
+				breaking: "scores on the old scale can't be compared with new ones",
+			}),
+		},
+	];
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+interface Keyed<T> {
+	key: string;
+	name?: string;
+	item: T;
+}
+
+function keyed<T>(
+	items: T[],
+	key: (item: T) => string,
+	name?: (item: T) => string,
+): Keyed<T>[] {
+	return items.map((item) => ({ key: key(item), name: name?.(item), item }));
+}
+
+/**
+ * Diff a list section. An item removed under one key and added under another
+ * counts as renamed when `sameItem` says it is the same.
+ */
+function diffItems<T>(
+	section: DiffSection,
+	before: Keyed<T>[],
+	after: Keyed<T>[],
+	options: {
+		sameItem: (a: T, b: T) => boolean;
+		/** Why removing or renaming an item breaks clients, if it does */
+		breaking?: string;
+		/** The fields to compare, without the key */
+		fields: (item: T) => object;
+	},
+): ExpertiseChange[] {
+	const { fields } = options;
+	const oldKeys = new Map(before.map((entry) => [entry.key, entry]));
+	const newKeys = new Map(after.map((entry) => [entry.key, entry]));
+	let removed = before.filter((entry) => !newKeys.has(entry.key));
+	let added = after.filter((entry) => !oldKeys.has(entry.key));
+	const changes: ExpertiseChange[] = [];
+
+	for (const old of removed) {
+		const match = added.find((entry) => options.sameItem(old.item, entry.item));
+		if (!match) continue;
+		removed = removed.filter((entry) => entry !== old);
+		added = added.filter((entry) => entry !== match);
+		changes.push({
+			section,
+			kind: "renamed",
+			id: match.key,
+			from: old.key,
+			name: match.name,
+			details: fieldChanges(fields(old.item), fields(match.item)),
+			...(options.breaking && { breaking: options.breaking }),
+		});
+	}
+
+	for (const entry of after) {
+		const old = oldKeys.get(entry.key);
+		if (!old) continue;
+		const details = fieldChanges(fields(old.item), fields(entry.item));
+		if (details.length > 0) {
+			changes.push({
+				section,
+				kind: "modified",
+				id: entry.key,
+				name: entry.name,
+				details,
+			});
+		}
+	}
+
+	return [
+		...added.map(
+			(entry): ExpertiseChange => ({
+				section,
+				kind: "added",
+				id: entry.key,
+				name: entry.name,
+				details: [],
+			}),
+		),
+		...removed.map(
+			(entry): ExpertiseChange => ({
+				section,
+				kind: "removed",
+				id: entry.key,
+				name: entry.name,
+				details: [],
+				...(options.breaking && { breaking: options.breaking }),
+			}),
+		),
+		...changes,
+	];
+}
+
+function diffSingle(
+	section: DiffSection,
+	id: string,
+	before: object,
+	after: object,
+): ExpertiseChange[] {
+	const details = fieldChanges(before, after);
+	return details.length > 0 ? [{ section, kind: "modified", id, details }] : [];
+}
+
+// ============================================================================
+// Field changes
+// ============================================================================
+
+/**
+ * Describe how two versions of an item differ, field by field.
+ */
+function fieldChanges(before: object, after: object): string[] {
+	const a = before as Record<string, unknown>;
+	const b = after as Record<string, unknown>;
+	const details: string[] = [];
+	for (const field of new Set([...Object.keys(a), ...Object.keys(b)])) {
+		const old = a[field];
+		const value = b[field];
+		if (equal(old, value)) continue;
+		if (old === undefined) {
+			details.push(`${field} added`);
+		} else if (value === undefined) {
+			details.push(`${field} removed`);
+		} else if (isStringList(old) && isStringList(value)) {
+			details.push(...listChanges(field, old, value));
+		} else if (Array.isArray(old) && Array.isArray(value)) {
+			details.push(
+				old.length === value.length
+					? `${field} changed`
+					: `${field}: ${old.length} → ${value.length}`,
+			);
+		} else if (typeof old === "object" || typeof value === "object") {
+			details.push(`${field} changed`);
+		} else {
+			details.push(`${field}: ${describeValueChange(old, value)}`);
+		}
+	}
+	return details;
+}
+
+function listChanges(
+	field: string,
+	before: string[],
+	after: string[],
+): string[] {
+	const added = after.filter((item) => !before.includes(item));
+	const removed = before.filter((item) => !after.includes(item));
+	if (added.length === 0 && removed.length === 0) {
+		return [`${field} reordered`];
+	}
+	return [
+		...added.map((item) => `${field}: added ${quote(item)}`),
+		...removed.map((item) => `${field}: removed ${quote(item)}`),
+	];
+}
+
+function describeValueChange(before: unknown, after: unknown): string {
+	if (before === undefined) return `set to ${formatValue(after)}`;
+	if (after === undefined) return `removed (was ${formatValue(before)})`;
+	return `${formatValue(before)} → ${formatValue(after)}`;
+}
+
+function formatValue(value: unknown): string {
+	return typeof value === "string" ? quote(value) : String(value);
+}
+
+function formatScale(rubric: Rubric): string {
+	return `${rubric.scale.min}-${rubric.scale.max} step ${rubric.scale.step ?? 1}`;
+}
+
+// ============================================================================
+// Changelog
+// ============================================================================
+
+const SECTION_TITLES: Record<DiffSection, string> = {
+	meta: "Metadata",
+	principles: "Principles",
+	checkpoints: "Checkpoints",
+	categories: "Categories",
+	qualityChecks: "Quality Checks",
+	reviewGuidance: "Review Guidance",
+	requirements: "Requirements",
+	rubric: "Rubric",
+};
+
+/**
+ * Render a diff as a Markdown changelog, breaking changes first.
+ */
+export function formatChangelog(diff: ExpertiseDiff): string {
+	const lines = [`# Changes to ${diff.domain}`, ""];
+	if (diff.changes.length === 0) {
+		lines.push("No changes.");
+		return lines.join("\n");
+	}
+
+	const breaking = diff.changes.filter((change) => change.breaking);
+	if (breaking.length > 0) {
+		lines.push("## ⚠️ Breaking Changes", "");
+		for (const change of breaking) {
+			lines.push(`- ${describeChange(change)}: ${change.breaking}`);
+		}
+		lines.push("");
+	}
+
+	for (const section of DIFF_SECTIONS) {
+		const changes = diff.changes.filter((change) => change.section === section);
+		if (changes.length === 0) continue;
+		lines.push(`## ${SECTION_TITLES[section]}`, "");
+		for (const change of changes) {
+			lines.push(
+				`- ${describeChange(change)}${change.breaking ? " (breaking)" : ""}`,
+			);
+			for (const detail of change.details) {
+				lines.push(`  - ${detail}`);
+			}
+		}
+		lines.push("");
+	}
+	return lines.join("\n").trimEnd();
+}
+
+function describeChange(change: ExpertiseChange): string {
+	const label = change.name ? ` (${change.name})` : "";
+	switch (change.kind) {
+		case "added":
+			return `Added \`${change.id}\`${label}`;
+		case "removed":
+			return `Removed \`${change.id}\`${label}`;
+		case "renamed":
+			return `Renamed \`${change.from}\` → \`${change.id}\`${label}`;
+		case "modified":
+			return `Changed \`${change.id}\`${label}`;
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function equal(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isStringList(value: unknown): value is string[] {
+	return (
+		Array.isArray(value) && value.every((item) => typeof item === "string")
+	);
+}
+
+function overlap(a: string[], b: string[]): number {
+	return a.filter((item) => b.includes(item)).length;
+}
+
+function quote(text: string): string {
+	return JSON.stringify(text.length > 80 ? `${text.slice(0, 77)}...` : text);
+}
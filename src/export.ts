@@ -0,0 +1,200 @@
+import { formatGuidelines } from "./context";
+import type {
+	ExportedFile,
+	ExportFormat,
+	ExpertiseContent,
+	RulesExport,
+} from "./types";
+import { getToolPrefix } from "./types";
+
+// ============================================================================
+// Rules Export
+// Renders expertise for assistants that can't call MCP tools: instruction
+// files they pick up from a project, or text to paste as a system prompt.
+// The Markdown comes from formatGuidelines, so every format says what the
+// get_{prefix}_guidelines tool says.
+// ============================================================================
+
+// Skill descriptions are limited to 1024 characters
+const MAX_SKILL_DESCRIPTION = 1024;
+
+/**
+ * Guideline topics in the order they appear in exports, with the file name
+ * each gets in a skill bundle.
+ */
+const TOPICS = [
+	{ topic: "principles", file: "principles.md", title: "Core principles" },
+	{ topic: "checkpoints", file: "checkpoints.md", title: "Checkpoints" },
+	{ topic: "quality", file: "quality-checks.md", title: "Quality checks" },
+	{ topic: "review", file: "review-guidance.md", title: "Review guidance" },
+] as const;
+
+/**
+ * Render expertise in one of the export formats.
+ */
+export function exportRules(
+	content: ExpertiseContent,
+	format: ExportFormat,
+): RulesExport {
+	const prefix = getToolPrefix(content.meta);
+	let files: ExportedFile[];
+
+	switch (format) {
+		case "claude-md":
+			files = [{ path: "CLAUDE.md", content: guidelinesDocument(content) }];
+			break;
+
+		case "cursor-rules":
+			files = [
+				{
+					path: `.cursor/rules/${prefix}.mdc`,
+					content: withFrontmatter(
+						{
+							description: `${content.meta.description} ${usageHint(content)}`,
+							globs: "",
+							alwaysApply: false,
+						},
+						guidelinesDocument(content),
+					),
+				},
+			];
+			break;
+
+		case "skill":
+			files = skillBundle(content);
+			break;
+
+		case "system-prompt":
+			files = [
+				{
+					path: `${prefix}-system-prompt.txt`,
+					content: plainText(guidelinesDocument(content)),
+				},
+			];
+			break;
+	}
+
+	return { domain: content.meta.domain, format, files };
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+/**
+ * All guidelines as one Markdown document, for CLAUDE.md, Cursor rules and
+ * system prompts.
+ */
+function guidelinesDocument(content: ExpertiseContent): string {
+	const lines = [
+		`# ${content.meta.domain}`,
+		"",
+		content.meta.description,
+		"",
+		`When writing or reviewing ${content.meta.domain} content, follow these guidelines. Check the content against every checkpoint, then the quality checks, and give feedback the way the review guidance describes.`,
+	];
+	for (const { topic } of topicsFor(content)) {
+		lines.push(
+			"",
+			demoteHeadings(formatGuidelines(content, topic, { infoUrl: false })),
+		);
+	}
+	lines.push("", ...footer(content));
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * An agent skill: SKILL.md with a quick reference that links to one file per
+ * topic, so the assistant only reads the detail it needs. Saved under
+ * .claude/skills/, where project skills are discovered.
+ */
+function skillBundle(content: ExpertiseContent): ExportedFile[] {
+	const name = getToolPrefix(content.meta).replace(/_/g, "-");
+	const dir = `.claude/skills/${name}`;
+	const topics = topicsFor(content);
+	let description = `${content.meta.description} ${usageHint(content)}`;
+	if (description.length > MAX_SKILL_DESCRIPTION) {
+		description = `${description.slice(0, MAX_SKILL_DESCRIPTION - 3)}...`;
+	}
+
+	const body = [
+		formatGuidelines(content, "summary", { infoUrl: false }),
+		"",
+		"## How to Use",
+		`Read the reference for the task before writing or reviewing ${content.meta.domain} content:`,
+		"",
+		...topics.map(({ file, title }) => `- [${title}](${file})`),
+		"",
+		...footer(content),
+	];
+
+	return [
+		{
+			path: `${dir}/SKILL.md`,
+			content: withFrontmatter({ name, description }, `${body.join("\n")}\n`),
+		},
+		...topics.map(({ topic, file }) => ({
+			path: `${dir}/${file}`,
+			content: `${formatGuidelines(content, topic, { infoUrl: false })}\n`,
+		})),
+	];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Quality checks are optional; the other topics always have content
+function topicsFor(content: ExpertiseContent) {
+	const hasQualityChecks = Object.keys(content.qualityChecks ?? {}).length > 0;
+	return TOPICS.filter(({ topic }) => topic !== "quality" || hasQualityChecks);
+}
+
+function usageHint(content: ExpertiseContent): string {
+	return `Use when writing or reviewing ${content.meta.domain} content.`;
+}
+
+function footer(content: ExpertiseContent): string[] {
+	const lines = [
+		"---",
+		`Exported from the ${content.meta.domain} expertise by ${content.meta.author}. Edit the expertise YAML and export again rather than editing this file.`,
+	];
+	if (content.meta.infoUrl) {
+		lines.push(`For more information: ${content.meta.infoUrl}`);
+	}
+	return lines;
+}
+
+/**
+ * Push every heading down one level, so topic documents nest under the
+ * domain's title.
+ */
+function demoteHeadings(markdown: string): string {
+	return markdown.replace(/^(#{1,5}) /gm, "#$1 ");
+}
+
+/**
+ * YAML frontmatter, with strings quoted so colons and the like stay safe.
+ */
+function withFrontmatter(
+	fields: Record<string, string | boolean>,
+	body: string,
+): string {
+	const lines = Object.entries(fields).map(([key, value]) => {
+		if (value === "") return `${key}:`;
+		return typeof value === "string"
+			? `${key}: ${JSON.stringify(value)}`
+			: `${key}: ${value}`;
+	});
+	return `---\n${lines.join("\n")}\n---\n\n${body}`;
+}
+
+/**
+ * Strip Markdown emphasis and heading marks, for prompts pasted as plain text.
+ */
+function plainText(markdown: string): string {
+	return markdown
+		.replace(/^#{1,6} /gm, "")
+		.replace(/\*\*([^*\n]+)\*\*/g, "$1")
+		.replace(/\*([^*\n]+)\*/g, "$1");
+}
@@ -0,0 +1,195 @@
+import { ExpertiseFragmentSchema, ExtendsSchema } from "./types";
+
+// ============================================================================
+// Inheritance
+// Lets an expertise file build on other files in the store via `extends`.
+// Bases are merged in the order listed, then the file's own content overrides
+// them item by item (by ID or name).
+// ============================================================================
+
+/**
+ * Files that only hold shared parts (e.g. _tone.fragment.yaml). They can be
+ * extended but are never loaded as domains themselves.
+ */
+export const FRAGMENT_SUFFIX = ".fragment.yaml";
+
+export function isFragmentFile(filename: string): boolean {
+	return filename.endsWith(FRAGMENT_SUFFIX);
+}
+
+// Meta fields a file inherits. Identity (domain, description, toolPrefix) is
+// always the file's own.
+const INHERITED_META = ["author", "license", "infoUrl", "privacyStatement"];
+
+// List sections merged item by item, and the field identifying an item
+const LIST_SECTIONS = {
+	principles: "name",
+	checkpoints: "id",
+	categories: "id",
+	requirements: "name",
+} as const;
+
+// Sections merged key by key
+const RECORD_SECTIONS = ["qualityChecks", "reviewGuidance"] as const;
+
+type RawExpertise = Record<string, unknown>;
+
+/**
+ * Read a file from the store and parse it, or undefined if it does not exist.
+ */
+export type ExpertiseReader = (filename: string) => Promise<unknown>;
+
+/**
+ * Resolve a parsed expertise file's `extends`, returning the merged document
+ * (still to be validated). Throws if a base is missing or invalid, or if files
+ * extend each other in a cycle.
+ */
+export async function resolveExtends(
+	filename: string,
+	data: unknown,
+	read: ExpertiseReader,
+): Promise<unknown> {
+	if (!isRecord(data)) {
+		return data;
+	}
+
+	// Files resolved so far, shared when several files extend the same base
+	const resolved = new Map<string, RawExpertise>();
+	// Chain of files currently being resolved, for cycle detection
+	const chain = [filename];
+
+	const resolve = async (
+		name: string,
+		doc: RawExpertise,
+	): Promise<RawExpertise> => {
+		const bases = ExtendsSchema.safeParse(doc.extends ?? []);
+		if (!bases.success) {
+			throw new Error(
+				`${name}: extends must be a list of .yaml filenames in the store`,
+			);
+		}
+
+		let inherited: RawExpertise = {};
+		for (const base of bases.data) {
+			if (chain.includes(base)) {
+				const cycle = [...chain.slice(chain.indexOf(base)), base];
+				throw new Error(`Circular extends: ${cycle.join(" -> ")}`);
+			}
+
+			let baseDoc = resolved.get(base);
+			if (!baseDoc) {
+				let raw: unknown;
+				try {
+					raw = await read(base);
+				} catch (error) {
+					const message =
+						error instanceof Error ? error.message : String(error);
+					throw new Error(`${base} (extended by ${name}): ${message}`);
+				}
+				if (raw === undefined) {
+					throw new Error(`${name} extends ${base}, which was not found`);
+				}
+				const result = ExpertiseFragmentSchema.safeParse(raw);
+				if (!result.success) {
+					const issues = result.error.issues
+						.map((i) => `${i.path.join(".")}: ${i.message}`)
+						.slice(0, 3)
+						.join("; ");
+					throw new Error(`${base} (extended by ${name}): ${issues}`);
+				}
+
+				chain.push(base);
+				baseDoc = await resolve(base, raw as RawExpertise);
+				chain.pop();
+				resolved.set(base, baseDoc);
+			}
+			inherited = mergeExpertise(inherited, inheritable(baseDoc));
+		}
+
+		return mergeExpertise(inherited, doc);
+	};
+
+	return resolve(filename, data);
+}
+
+/**
+ * The parts of a resolved file that files extending it inherit.
+ * Version, rubric and extends belong to the file itself.
+ */
+function inheritable(doc: RawExpertise): RawExpertise {
+	const parts: RawExpertise = {};
+	if (isRecord(doc.meta)) {
+		const meta = doc.meta;
+		parts.meta = Object.fromEntries(
+			INHERITED_META.filter((key) => meta[key] !== undefined).map((key) => [
+				key,
+				meta[key],
+			]),
+		);
+	}
+	for (const key of [...Object.keys(LIST_SECTIONS), ...RECORD_SECTIONS]) {
+		if (doc[key] !== undefined) {
+			parts[key] = doc[key];
+		}
+	}
+	return parts;
+}
+
+/**
+ * Overlay a document on inherited parts. Items in the document replace
+ * inherited items with the same ID in place; new items are appended.
+ */
+function mergeExpertise(
+	inherited: RawExpertise,
+	doc: RawExpertise,
+): RawExpertise {
+	const merged: RawExpertise = { ...doc };
+
+	if (inherited.meta !== undefined || doc.meta !== undefined) {
+		merged.meta = mergeRecords(inherited.meta, doc.meta);
+	}
+	for (const [key, idField] of Object.entries(LIST_SECTIONS)) {
+		if (inherited[key] !== undefined || doc[key] !== undefined) {
+			merged[key] = mergeLists(inherited[key], doc[key], idField);
+		}
+	}
+	for (const key of RECORD_SECTIONS) {
+		if (inherited[key] !== undefined || doc[key] !== undefined) {
+			merged[key] = mergeRecords(inherited[key], doc[key]);
+		}
+	}
+	return merged;
+}
+
+function mergeLists(base: unknown, own: unknown, idField: string): unknown {
+	// Leave anything malformed for schema validation to report
+	if (!Array.isArray(base) || !Array.isArray(own)) {
+		return own ?? base;
+	}
+
+	const merged = [...base];
+	for (const item of own) {
+		const id = isRecord(item) ? item[idField] : undefined;
+		const index =
+			id === undefined
+				? -1
+				: merged.findIndex((b) => isRecord(b) && b[idField] === id);
+		if (index === -1) {
+			merged.push(item);
+		} else {
+			merged[index] = item;
+		}
+	}
+	return merged;
+}
+
+function mergeRecords(base: unknown, own: unknown): unknown {
+	if (!isRecord(base) || !isRecord(own)) {
+		return own ?? base;
+	}
+	return { ...base, ...own };
+}
+
+function isRecord(value: unknown): value is RawExpertise {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
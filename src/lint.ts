@@ -0,0 +1,346 @@
+import { z } from "zod";
+import type { ExpertiseContent } from "./types";
+
+// ============================================================================
+// Lint Rules
+// Checks that go beyond the schema: content that validates but won't work
+// well. Each rule has a default severity that a config file can change.
+// ============================================================================
+
+export const LINT_SEVERITIES = ["error", "warn", "off"] as const;
+export type LintSeverity = (typeof LINT_SEVERITIES)[number];
+
+/**
+ * A problem found by a lint rule.
+ */
+export interface LintFinding {
+	/** Rule ID */
+	rule: string;
+	severity: Exclude<LintSeverity, "off">;
+	/** Location in the expertise content (e.g. ["checkpoints", 2, "id"]) */
+	path: (string | number)[];
+	message: string;
+}
+
+type Report = (path: (string | number)[], message: string) => void;
+
+/**
+ * A lint rule, with its options still untyped (see defineRule).
+ */
+export interface LintRule {
+	id: string;
+	/** What the rule catches, shown in docs and listings */
+	description: string;
+	/** Severity when the config doesn't set one */
+	severity: LintSeverity;
+	/** Validate options from the config and fill in defaults; throws if invalid */
+	parseOptions(options: unknown): unknown;
+	check(content: ExpertiseContent, options: unknown, report: Report): void;
+}
+
+/**
+ * Define a rule with typed options.
+ */
+function defineRule<Options>(rule: {
+	id: string;
+	description: string;
+	severity: LintSeverity;
+	options: z.ZodType<Options>;
+	check(content: ExpertiseContent, options: Options, report: Report): void;
+}): LintRule {
+	return {
+		id: rule.id,
+		description: rule.description,
+		severity: rule.severity,
+		parseOptions: (options) => rule.options.parse(options ?? {}),
+		check: (content, options, report) =>
+			rule.check(content, options as Options, report),
+	};
+}
+
+// Rules without options
+const NoOptions = z.object({}).strict();
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export const LINT_RULES: LintRule[] = [
+	defineRule({
+		id: "duplicate-ids",
+		description: "Checkpoint and category IDs must be unique",
+		severity: "error",
+		options: NoOptions,
+		check(content, _options, report) {
+			const checkUnique = (
+				section: string,
+				items: { id: string }[] | undefined,
+			) => {
+				const seen = new Set<string>();
+				items?.forEach((item, i) => {
+					if (seen.has(item.id)) {
+						report(
+							[section, i, "id"],
+							`Duplicate ID "${item.id}"; tools and resources only reach the first`,
+						);
+					}
+					seen.add(item.id);
+				});
+			};
+			checkUnique("checkpoints", content.checkpoints);
+			checkUnique("categories", content.categories);
+		},
+	}),
+
+	defineRule({
+		id: "keyword-indicators",
+		description:
+			"whatIndicatesPresence entries should describe concepts, not list keywords",
+		severity: "warn",
+		options: z
+			.object({ minWords: z.number().int().min(1).default(2) })
+			.strict(),
+		check(content, { minWords }, report) {
+			content.checkpoints.forEach((cp, i) => {
+				cp.whatIndicatesPresence.forEach((indicator, j) => {
+					const words = indicator.trim().split(/\s+/).filter(Boolean);
+					if (words.length < minWords) {
+						report(
+							["checkpoints", i, "whatIndicatesPresence", j],
+							`"${indicator}" reads like a keyword; describe what indicates presence instead`,
+						);
+					}
+				});
+			});
+		},
+	}),
+
+	defineRule({
+		id: "empty-examples",
+		description: "Quality checks should include at least one bad/good example",
+		severity: "warn",
+		options: NoOptions,
+		check(content, _options, report) {
+			for (const [key, check] of Object.entries(content.qualityChecks ?? {})) {
+				if (check.examples.length === 0) {
+					report(
+						["qualityChecks", key, "examples"],
+						"No examples; a bad/good pair shows what the check means",
+					);
+				}
+			}
+		},
+	}),
+
+	defineRule({
+		id: "identical-examples",
+		description: "Bad and good examples must differ",
+		severity: "error",
+		options: NoOptions,
+		check(content, _options, report) {
+			const same = (a: string | undefined, b: string | undefined) =>
+				a !== undefined &&
+				b !== undefined &&
+				a.trim().toLowerCase() === b.trim().toLowerCase();
+
+			content.principles.forEach((p, i) => {
+				p.examples?.forEach((example, j) => {
+					if (same(example.bad, example.good)) {
+						report(
+							["principles", i, "examples", j],
+							"Bad and good examples are identical",
+						);
+					}
+				});
+			});
+			content.checkpoints.forEach((cp, i) => {
+				if (same(cp.exampleGood, cp.examplePoor)) {
+					report(
+						["checkpoints", i, "examplePoor"],
+						"exampleGood and examplePoor are identical",
+					);
+				}
+			});
+			for (const [key, check] of Object.entries(content.qualityChecks ?? {})) {
+				check.examples.forEach((example, j) => {
+					if (same(example.bad, example.good)) {
+						report(
+							["qualityChecks", key, "examples", j],
+							"Bad and good examples are identical",
+						);
+					}
+				});
+			}
+		},
+	}),
+
+	defineRule({
+		id: "placeholders",
+		description:
+			"Leftover [REPLACE: ...] placeholders from the starter template",
+		severity: "warn",
+		options: z
+			.object({ pattern: z.string().min(1).default("[REPLACE:") })
+			.strict(),
+		check(content, { pattern }, report) {
+			const visit = (value: unknown, path: (string | number)[]) => {
+				if (typeof value === "string") {
+					if (value.includes(pattern)) {
+						report(path, `Placeholder left in: "${value}"`);
+					}
+				} else if (Array.isArray(value)) {
+					value.forEach((item, i) => {
+						visit(item, [...path, i]);
+					});
+				} else if (value && typeof value === "object") {
+					for (const [key, item] of Object.entries(value)) {
+						visit(item, [...path, key]);
+					}
+				}
+			};
+			visit(content, []);
+		},
+	}),
+
+	defineRule({
+		id: "tool-prefix-length",
+		description: "Tool prefixes should be short enough for readable tool names",
+		severity: "warn",
+		options: z.object({ max: z.number().int().min(1).default(20) }).strict(),
+		check(content, { max }, report) {
+			const prefix = content.meta.toolPrefix;
+			if (prefix.length > max) {
+				report(
+					["meta", "toolPrefix"],
+					`"${prefix}" is ${prefix.length} characters (max ${max}); tool names like search_${prefix}_expertise get hard to read`,
+				);
+			}
+		},
+	}),
+
+	defineRule({
+		id: "privacy-statement",
+		description: "Domains should state their own privacy statement",
+		severity: "warn",
+		options: NoOptions,
+		check(content, _options, report) {
+			if (!content.meta.privacyStatement) {
+				report(
+					["meta", "privacyStatement"],
+					"No privacyStatement; the default will be used",
+				);
+			}
+		},
+	}),
+
+	defineRule({
+		id: "checkpoint-examples",
+		description: "At least one checkpoint should have exampleGood/examplePoor",
+		severity: "warn",
+		options: NoOptions,
+		check(content, _options, report) {
+			if (!content.checkpoints.some((cp) => cp.exampleGood || cp.examplePoor)) {
+				report(
+					["checkpoints"],
+					"No checkpoint examples; consider adding exampleGood/examplePoor",
+				);
+			}
+		},
+	}),
+];
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Lint config file contents, e.g.
+ * { "rules": { "placeholders": "error", "tool-prefix-length": ["warn", { "max": 12 }] } }
+ */
+export const LintConfigSchema = z
+	.object({
+		rules: z
+			.record(
+				z.string(),
+				z.union([
+					z.enum(LINT_SEVERITIES),
+					z.tuple([z.enum(LINT_SEVERITIES), z.record(z.string(), z.unknown())]),
+				]),
+			)
+			.optional(),
+	})
+	.strict();
+
+export type LintConfig = z.infer<typeof LintConfigSchema>;
+
+/**
+ * Severity and parsed options for every rule.
+ */
+export type ResolvedLintConfig = Map<
+	string,
+	{ rule: LintRule; severity: LintSeverity; options: unknown }
+>;
+
+/**
+ * Apply a config over the rule defaults.
+ * Throws on unknown rules or invalid options, naming the rule.
+ */
+export function resolveLintConfig(config: unknown = {}): ResolvedLintConfig {
+	const parsed = LintConfigSchema.safeParse(config);
+	if (!parsed.success) {
+		const issue = parsed.error.issues[0];
+		throw new Error(
+			`Invalid lint config at ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+		);
+	}
+
+	const settings = parsed.data.rules ?? {};
+	for (const id of Object.keys(settings)) {
+		if (!LINT_RULES.some((rule) => rule.id === id)) {
+			throw new Error(
+				`Unknown lint rule "${id}". Available: ${LINT_RULES.map((r) => r.id).join(", ")}`,
+			);
+		}
+	}
+
+	const resolved: ResolvedLintConfig = new Map();
+	for (const rule of LINT_RULES) {
+		const setting = settings[rule.id];
+		const [severity, options] = Array.isArray(setting)
+			? setting
+			: [setting ?? rule.severity, undefined];
+		try {
+			resolved.set(rule.id, {
+				rule,
+				severity,
+				options: rule.parseOptions(options),
+			});
+		} catch (error) {
+			const message =
+				error instanceof z.ZodError
+					? error.issues
+							.map((i) => `${i.path.join(".")}: ${i.message}`)
+							.join("; ")
+					: String(error);
+			throw new Error(`Invalid options for lint rule "${rule.id}": ${message}`);
+		}
+	}
+	return resolved;
+}
+
+/**
+ * Run every enabled rule over validated expertise content.
+ */
+export function lintExpertise(
+	content: ExpertiseContent,
+	config: ResolvedLintConfig = resolveLintConfig(),
+): LintFinding[] {
+	const findings: LintFinding[] = [];
+	for (const { rule, severity, options } of config.values()) {
+		if (severity === "off") continue;
+		rule.check(content, options, (path, message) => {
+			findings.push({ rule: rule.id, severity, path, message });
+		});
+	}
+	return findings;
+}
@@ -0,0 +1,611 @@
+import type { ExpertiseContent, ExpertiseDiagnostic } from "./types";
+import { ExpertiseContentSchema, ExpertiseTranslationSchema } from "./types";
+import type {
+	CacheInvalidationMarker,
+	CacheInvalidationState,
+	ExpertiseFileVersion,
+	ExpertiseStore,
+} from "./store";
+import {
+	type ExpertiseSource,
+	errorDiagnostic,
+	formatDiagnostic,
+	issueDiagnostics,
+	parseSource,
+} from "./diagnostics";
+import { isFragmentFile, resolveExtends } from "./inheritance";
+import { migrateExpertise, parseExpertise } from "./migrations";
+import {
+	applyTranslation,
+	isLocaleFile,
+	localeFileName,
+	matchLocale,
+} from "./localization";
+
+// ============================================================================
+// Expertise Loading
+// Reads YAML from the store, validates it, and caches the parsed content
+// ============================================================================
+
+// Configuration
+const DEFAULT_CACHE_TTL_MS = 60 * 1000; // 1 minute
+const DEFAULT_INVALIDATION_CHECK_MS = 5 * 1000; // 5 seconds
+const LOAD_CONCURRENCY = 8; // Files loaded in parallel
+const INVALIDATION_WRITE_ATTEMPTS = 5; // Retries when invalidations race
+let cacheTtlMs = DEFAULT_CACHE_TTL_MS;
+let invalidationCheckMs = DEFAULT_INVALIDATION_CHECK_MS;
+
+/**
+ * A cached file. Invalid files are cached too (content null), so a broken
+ * file is not re-downloaded and re-validated until it changes.
+ */
+interface CacheEntry {
+	content: ExpertiseContent | null;
+	/** Version the content was parsed from */
+	version: ExpertiseFileVersion;
+	/** Etags of the files it extends, directly or indirectly (undefined if missing) */
+	dependencies: Map<string, string | undefined>;
+	/** When the entry was last confirmed against the store */
+	checkedAt: number;
+}
+
+// Cache for expertise content (keyed by store, then filename)
+const expertiseCache = new WeakMap<ExpertiseStore, Map<string, CacheEntry>>();
+
+/**
+ * A store's shared invalidation marker, and what this isolate last saw of it.
+ */
+interface SharedInvalidations {
+	marker: CacheInvalidationMarker;
+	/** State as of the last check (undefined before the first) */
+	seen?: CacheInvalidationState;
+	/** Revision tag of the seen state */
+	seenEtag?: string;
+	/** When the marker was last checked */
+	checkedAt: number;
+	/** In-flight check, shared by concurrent loads */
+	pending?: Promise<void>;
+}
+
+// Shared invalidation markers (keyed by store)
+const sharedInvalidations = new WeakMap<ExpertiseStore, SharedInvalidations>();
+
+// Track validation errors for diagnostics (keyed by filename)
+export const validationErrors = new Map<string, ExpertiseDiagnostic[]>();
+
+/**
+ * Timing for one pass of loading every file in a store.
+ */
+export interface ExpertiseLoadReport {
+	/** When the load started (ISO timestamp) */
+	startedAt: string;
+	/** YAML files found in the store */
+	files: number;
+	/** Files that loaded and validated */
+	loaded: number;
+	/** Files that were missing, invalid or failed to load */
+	failed: number;
+	/** Maximum files loaded in parallel */
+	concurrency: number;
+	/** Time spent listing the store */
+	listMs: number;
+	/** Time spent loading files */
+	loadMs: number;
+	/** Total time */
+	totalMs: number;
+	/** The slowest files to load */
+	slowest: { filename: string; ms: number }[];
+}
+
+// Load reports per store: the first (cold start) and the most recent
+const loadReports = new WeakMap<
+	ExpertiseStore,
+	{ startup: ExpertiseLoadReport; latest: ExpertiseLoadReport }
+>();
+
+/**
+ * Get the cold-start and most recent load reports for a store.
+ */
+export function getLoadReports(store: ExpertiseStore) {
+	return loadReports.get(store);
+}
+
+/**
+ * Set how long cached content is trusted before it is revalidated against the
+ * store. Revalidation only fetches the file's etag, so short TTLs are cheap.
+ * A TTL of 0 checks the etag on every access.
+ *
+ * `invalidationCheckMs` sets how often a shared invalidation marker is
+ * checked (default 5 seconds), which bounds how long another isolate's
+ * invalidation takes to arrive.
+ */
+export function configureExpertiseCache(options: {
+	ttlMs: number;
+	invalidationCheckMs?: number;
+}): void {
+	cacheTtlMs = Math.max(0, options.ttlMs);
+	if (options.invalidationCheckMs !== undefined) {
+		invalidationCheckMs = Math.max(0, options.invalidationCheckMs);
+	}
+}
+
+/**
+ * Share cache invalidations for a store through a marker every isolate can
+ * read. Loads check the marker's revision tag at most every
+ * `invalidationCheckMs` and drop what another isolate invalidated, so an
+ * invalidation reaches every isolate within that interval.
+ */
+export function shareCacheInvalidations(
+	store: ExpertiseStore,
+	marker: CacheInvalidationMarker,
+): void {
+	sharedInvalidations.set(store, { marker, checkedAt: 0 });
+}
+
+/**
+ * Drop cached content for a store so the next access re-reads it.
+ * Clears a single file (and every file extending it) when a filename is
+ * given, otherwise the whole store. If the store shares invalidations, the
+ * marker is updated so other isolates drop it too.
+ */
+export async function invalidateExpertiseCache(
+	store: ExpertiseStore,
+	filename?: string,
+): Promise<void> {
+	dropCachedContent(store, filename);
+
+	const shared = sharedInvalidations.get(store);
+	if (!shared) {
+		return;
+	}
+	// Conditional writes: if another invalidation lands in between, re-read
+	// and try again rather than overwrite its stamp
+	for (let attempt = 0; attempt < INVALIDATION_WRITE_ATTEMPTS; attempt++) {
+		const { state, etag } = await shared.marker.read();
+		const stamp = crypto.randomUUID();
+		const next: CacheInvalidationState = filename
+			? { all: state.all, files: { ...state.files, [filename]: stamp } }
+			: { all: stamp, files: {} };
+		const written = await shared.marker.write(next, etag);
+		if (written !== undefined) {
+			// Apply anything the write raced with before recording it as seen
+			if (shared.seen) {
+				dropInvalidated(store, shared.seen, state);
+			}
+			shared.seen = next;
+			shared.seenEtag = written;
+			return;
+		}
+	}
+	throw new Error(
+		"Could not record the invalidation: the marker kept changing. Try again.",
+	);
+}
+
+/**
+ * Drop what other isolates invalidated since this one last checked. The
+ * marker's revision tag is checked at most every `invalidationCheckMs`, and
+ * its body is only read when the tag changed. A failed check is logged and the
+ * cache used as is, falling back to etags.
+ */
+function applySharedInvalidations(store: ExpertiseStore): Promise<void> {
+	const shared = sharedInvalidations.get(store);
+	if (!shared) {
+		return Promise.resolve();
+	}
+	if (!shared.pending && Date.now() - shared.checkedAt >= invalidationCheckMs) {
+		shared.pending = (async () => {
+			const etag = await shared.marker.head();
+			if (shared.seen && etag === shared.seenEtag) {
+				return;
+			}
+			const snapshot =
+				etag === undefined
+					? { state: { files: {} }, etag }
+					: await shared.marker.read();
+			// Before the first successful check, nothing cached can be trusted
+			if (shared.seen) {
+				dropInvalidated(store, shared.seen, snapshot.state);
+			} else {
+				dropCachedContent(store);
+			}
+			shared.seen = snapshot.state;
+			shared.seenEtag = snapshot.etag;
+		})()
+			.catch((error) => {
+				console.error("Failed to check shared cache invalidations:", error);
+			})
+			.finally(() => {
+				shared.checkedAt = Date.now();
+				shared.pending = undefined;
+			});
+	}
+	return shared.pending ?? Promise.resolve();
+}
+
+/**
+ * Drop what was invalidated between two states of the marker.
+ */
+function dropInvalidated(
+	store: ExpertiseStore,
+	before: CacheInvalidationState,
+	after: CacheInvalidationState,
+): void {
+	if (after.all !== before.all) {
+		dropCachedContent(store);
+		return;
+	}
+	for (const [filename, stamp] of Object.entries(after.files)) {
+		if (before.files[filename] !== stamp) {
+			dropCachedContent(store, filename);
+		}
+	}
+}
+
+/**
+ * Drop cached content in this isolate only.
+ */
+function dropCachedContent(store: ExpertiseStore, filename?: string): void {
+	if (filename) {
+		const cache = expertiseCache.get(store);
+		for (const [key, entry] of cache ?? []) {
+			if (key === filename || entry.dependencies.has(filename)) {
+				cache?.delete(key);
+			}
+		}
+	} else {
+		expertiseCache.delete(store);
+	}
+}
+
+/**
+ * Get the content cache for a store, creating it on first use.
+ */
+function getStoreCache(store: ExpertiseStore) {
+	let cache = expertiseCache.get(store);
+	if (!cache) {
+		cache = new Map();
+		expertiseCache.set(store, cache);
+	}
+	return cache;
+}
+
+/**
+ * List all expertise YAML files in the store (fragments and translations
+ * excluded).
+ */
+export async function listExpertiseFiles(
+	store: ExpertiseStore,
+): Promise<string[]> {
+	const keys = await store.list();
+	return keys.filter(
+		(key) =>
+			key.endsWith(".yaml") && !isFragmentFile(key) && !isLocaleFile(key),
+	);
+}
+
+/**
+ * Whether every file a cached entry extends is unchanged in the store.
+ */
+async function dependenciesUnchanged(
+	store: ExpertiseStore,
+	entry: CacheEntry,
+): Promise<boolean> {
+	const checks = await Promise.all(
+		[...entry.dependencies].map(async ([filename, etag]) => {
+			const version = await store.head(filename);
+			return !!etag && version?.etag === etag;
+		}),
+	);
+	return checks.every(Boolean);
+}
+
+/**
+ * Turns a file's text into content. Returns the content, or the diagnostics
+ * to report for the file. Records the versions of any other files it reads in
+ * `dependencies`, so the result is rebuilt when they change.
+ */
+type ContentBuilder = (
+	text: string,
+	dependencies: Map<string, string | undefined>,
+) => Promise<ExpertiseContent | ExpertiseDiagnostic[]>;
+
+/**
+ * Load a file through the cache, building its content on a miss.
+ */
+async function loadCachedFile(
+	store: ExpertiseStore,
+	filename: string,
+	build: ContentBuilder,
+): Promise<ExpertiseContent | null> {
+	await applySharedInvalidations(store);
+	const now = Date.now();
+	const cache = getStoreCache(store);
+
+	try {
+		// Return cached content if still fresh, or if the file is unchanged
+		const cached = cache.get(filename);
+		if (cached) {
+			if (now - cached.checkedAt < cacheTtlMs) {
+				return cached.content;
+			}
+			const version = await store.head(filename);
+			if (!version) {
+				cache.delete(filename);
+				validationErrors.delete(filename);
+				console.log(
+					`Expertise file not found in ${store.description}: ${filename}`,
+				);
+				return null;
+			}
+			if (
+				version.etag &&
+				version.etag === cached.version.etag &&
+				(await dependenciesUnchanged(store, cached))
+			) {
+				cached.checkedAt = now;
+				return cached.content;
+			}
+		}
+
+		const file = await store.get(filename);
+		if (!file) {
+			cache.delete(filename);
+			console.log(
+				`Expertise file not found in ${store.description}: ${filename}`,
+			);
+			return null;
+		}
+
+		const { text, ...version } = file;
+		const dependencies = new Map<string, string | undefined>();
+		const built = await build(text, dependencies);
+		if (Array.isArray(built)) {
+			// Track the error for diagnostics; cache the failure until the file changes
+			validationErrors.set(filename, built);
+			cache.set(filename, {
+				content: null,
+				version,
+				dependencies,
+				checkedAt: now,
+			});
+			return null;
+		}
+
+		// Clear any previous validation error on success
+		validationErrors.delete(filename);
+
+		cache.set(filename, {
+			content: built,
+			version,
+			dependencies,
+			checkedAt: now,
+		});
+		return built;
+	} catch (error) {
+		console.error(`Error loading expertise content from ${filename}:`, error);
+		return null;
+	}
+}
+
+/**
+ * Load and validate a single expertise YAML file from the store, merging in
+ * any files it extends. The merged result is cached until the file or one of
+ * the files it extends changes.
+ *
+ * With a locale, returns the file's translation into that language if it has
+ * one, falling back to the file's own language otherwise.
+ */
+export async function loadExpertiseFile(
+	store: ExpertiseStore,
+	filename: string,
+	locale?: string,
+): Promise<ExpertiseContent | null> {
+	const content = await loadCachedFile(store, filename, (text, dependencies) =>
+		buildExpertiseContent(store, filename, text, dependencies),
+	);
+	const translation = content && locale && matchLocale(content, locale);
+	if (!content || !translation) {
+		return content;
+	}
+
+	const translated = await loadCachedFile(
+		store,
+		localeFileName(filename, translation),
+		async (text, dependencies) => {
+			// Rebuild when the domain file, or anything it extends, changes
+			const entry = getStoreCache(store).get(filename);
+			dependencies.set(filename, entry?.version.etag);
+			for (const [name, etag] of entry?.dependencies ?? []) {
+				dependencies.set(name, etag);
+			}
+			return buildTranslation(content, translation, text);
+		},
+	);
+	return translated ?? content;
+}
+
+/**
+ * Parse, migrate, resolve and validate a domain file.
+ */
+async function buildExpertiseContent(
+	store: ExpertiseStore,
+	filename: string,
+	text: string,
+	dependencies: Map<string, string | undefined>,
+): Promise<ExpertiseContent | ExpertiseDiagnostic[]> {
+	const source = parseSource(text);
+	const parsed = parseFile(filename, source);
+	if ("diagnostics" in parsed) {
+		return parsed.diagnostics;
+	}
+
+	// Merge in extended files, recording their versions for revalidation
+	let data: unknown;
+	try {
+		data = await resolveExtends(filename, parsed.data, async (base) => {
+			const baseFile = await store.get(base);
+			dependencies.set(base, baseFile?.etag);
+			return baseFile ? parseExpertise(baseFile.text, base) : undefined;
+		});
+	} catch (error) {
+		const diagnostic = errorDiagnostic("extends", error, source, ["extends"]);
+		console.error(
+			`Expertise content for ${filename} failed to resolve:`,
+			diagnostic.message,
+		);
+		return [...source.diagnostics, diagnostic];
+	}
+
+	// Validate with Zod schema
+	const result = ExpertiseContentSchema.safeParse(data);
+	if (!result.success) {
+		const issues = issueDiagnostics(result.error.issues, source, data);
+		console.error(
+			`Expertise content validation failed for ${filename}:`,
+			issues.map(formatDiagnostic),
+		);
+		return [...source.diagnostics, ...issues];
+	}
+	return result.data as ExpertiseContent;
+}
+
+/**
+ * Parse, validate and apply a translation file to its domain's content.
+ */
+async function buildTranslation(
+	content: ExpertiseContent,
+	locale: string,
+	text: string,
+): Promise<ExpertiseContent | ExpertiseDiagnostic[]> {
+	const label = `${content.meta.domain} (${locale})`;
+	const source = parseSource(text);
+	const parsed = parseFile(label, source);
+	if ("diagnostics" in parsed) {
+		return parsed.diagnostics;
+	}
+
+	const result = ExpertiseTranslationSchema.safeParse(parsed.data);
+	if (!result.success) {
+		const issues = issueDiagnostics(result.error.issues, source);
+		console.error(
+			`Translation validation failed for ${label}:`,
+			issues.map(formatDiagnostic),
+		);
+		return [...source.diagnostics, ...issues];
+	}
+	try {
+		return applyTranslation(content, result.data, locale);
+	} catch (error) {
+		const diagnostic = errorDiagnostic("translation", error);
+		console.error(
+			`Translation for ${label} failed to load:`,
+			diagnostic.message,
+		);
+		return [...source.diagnostics, diagnostic];
+	}
+}
+
+/**
+ * Migrate a parsed file to the current schema version and convert it to
+ * plain data. Returns diagnostics instead if it has YAML syntax errors or an
+ * unsupported version; YAML warnings are logged.
+ */
+function parseFile(
+	label: string,
+	source: ExpertiseSource,
+): { data: unknown } | { diagnostics: ExpertiseDiagnostic[] } {
+	if (source.diagnostics.some((d) => d.severity === "error")) {
+		console.error(
+			`Failed to parse YAML in ${label}:`,
+			source.diagnostics.map(formatDiagnostic),
+		);
+		return { diagnostics: source.diagnostics };
+	}
+	for (const warning of source.diagnostics) {
+		console.warn(`YAML warning in ${label}: ${formatDiagnostic(warning)}`);
+	}
+
+	try {
+		migrateExpertise(source.doc, label);
+	} catch (error) {
+		const diagnostic = errorDiagnostic("version", error, source, ["version"]);
+		console.error(`Failed to migrate ${label}:`, diagnostic.message);
+		return { diagnostics: [...source.diagnostics, diagnostic] };
+	}
+	return { data: source.doc.toJS() };
+}
+
+/**
+ * Load all expertise files from the store.
+ * Files load in parallel (bounded by LOAD_CONCURRENCY) and results keep the
+ * store's listing order. Returns array of loaded content with their filenames.
+ */
+export async function getAllExpertiseContent(
+	store: ExpertiseStore,
+): Promise<{ filename: string; content: ExpertiseContent }[]> {
+	const startedAt = new Date();
+	const start = performance.now();
+	const files = await listExpertiseFiles(store);
+	const listed = performance.now();
+
+	const timings: { filename: string; ms: number }[] = [];
+	const loaded = await mapWithConcurrency(
+		files,
+		LOAD_CONCURRENCY,
+		async (filename) => {
+			const fileStart = performance.now();
+			const content = await loadExpertiseFile(store, filename);
+			timings.push({ filename, ms: performance.now() - fileStart });
+			return content ? { filename, content } : null;
+		},
+	);
+	const results = loaded.filter((r) => r !== null);
+	const end = performance.now();
+
+	const report: ExpertiseLoadReport = {
+		startedAt: startedAt.toISOString(),
+		files: files.length,
+		loaded: results.length,
+		failed: files.length - results.length,
+		concurrency: LOAD_CONCURRENCY,
+		listMs: Math.round(listed - start),
+		loadMs: Math.round(end - listed),
+		totalMs: Math.round(end - start),
+		slowest: timings
+			.sort((a, b) => b.ms - a.ms)
+			.slice(0, 3)
+			.map((t) => ({ filename: t.filename, ms: Math.round(t.ms) })),
+	};
+	const previous = loadReports.get(store);
+	loadReports.set(store, {
+		startup: previous?.startup ?? report,
+		latest: report,
+	});
+
+	return results;
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, preserving order.
+ */
+async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index]);
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.min(limit, items.length) }, worker),
+	);
+	return results;
+}
@@ -0,0 +1,146 @@
+#!/usr/bin/env bun
+/**
+ * Run the expertise server locally, without Cloudflare.
+ *
+ * Reads expertise YAML from a directory and serves the same tools, resources
+ * and prompts as the Worker over stdio (default) or streamable HTTP.
+ *
+ * Usage:
+ *   bun src/local.ts                         # stdio, reads content/
+ *   bun src/local.ts --dir path/to/yaml      # stdio, reads another directory
+ *   bun src/local.ts --http [--port 8787]    # HTTP server at /mcp
+ */
+
+import { createServer } from "node:http";
+import { resolve } from "node:path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { configureExpertiseCache } from "./loader";
+import { createExpertiseStore, type ExpertiseStore } from "./store";
+import {
+	REFRESH_INTERVAL_MS,
+	registerExpertise,
+	SERVER_INFO,
+	SERVER_OPTIONS,
+} from "./server";
+
+const DEFAULT_PORT = 8787;
+
+interface LocalOptions {
+	directory: string;
+	http: boolean;
+	port: number;
+}
+
+function parseArgs(args: string[]): LocalOptions {
+	const options: LocalOptions = {
+		directory: "content",
+		http: false,
+		port: DEFAULT_PORT,
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		switch (args[i]) {
+			case "--dir":
+				options.directory = args[++i] ?? options.directory;
+				break;
+			case "--http":
+				options.http = true;
+				break;
+			case "--port":
+				options.port = Number(args[++i]);
+				if (!Number.isInteger(options.port) || options.port <= 0) {
+					throw new Error(`Invalid --port value: ${args[i]}`);
+				}
+				break;
+			default:
+				throw new Error(`Unknown argument: ${args[i]}`);
+		}
+	}
+
+	return options;
+}
+
+/**
+ * Build a fully registered MCP server for the store.
+ */
+async function createLocalServer(store: ExpertiseStore) {
+	const server = new McpServer(SERVER_INFO, SERVER_OPTIONS);
+	const registry = await registerExpertise(server, store);
+	return { server, registry };
+}
+
+async function serveStdio(store: ExpertiseStore) {
+	// stdout carries the MCP protocol, so route informational logs to stderr
+	console.log = console.error;
+
+	const { server, registry } = await createLocalServer(store);
+	await server.connect(new StdioServerTransport());
+	console.error(`MCP Expertise Server running on stdio (${store.description})`);
+
+	// Pick up added, removed and renamed files while the session runs
+	setInterval(() => {
+		registry.sync().catch((error) => {
+			console.error("Failed to refresh expertise domains:", error);
+		});
+	}, REFRESH_INTERVAL_MS).unref();
+}
+
+async function serveHttp(store: ExpertiseStore, port: number) {
+	const httpServer = createServer(async (req, res) => {
+		const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+		if (url.pathname !== "/mcp") {
+			res.writeHead(404).end("Not found");
+			return;
+		}
+
+		try {
+			// Stateless mode: a fresh server and transport per request, so every
+			// request already sees the current set of files
+			const { server } = await createLocalServer(store);
+			const transport = new StreamableHTTPServerTransport({
+				sessionIdGenerator: undefined,
+			});
+			res.on("close", () => {
+				transport.close();
+				server.close();
+			});
+			await server.connect(transport);
+			await transport.handleRequest(req, res);
+		} catch (error) {
+			console.error("Error handling MCP request:", error);
+			if (!res.headersSent) {
+				res.writeHead(500).end("Internal server error");
+			}
+		}
+	});
+
+	httpServer.listen(port, () => {
+		console.log(
+			`MCP Expertise Server listening on http://localhost:${port}/mcp (${store.description})`,
+		);
+	});
+}
+
+async function main() {
+	const options = parseArgs(process.argv.slice(2));
+
+	// Checking a local file's mtime is cheap, so show edits on the next call
+	configureExpertiseCache({ ttlMs: 0 });
+	const store = createExpertiseStore({
+		type: "filesystem",
+		directory: resolve(process.cwd(), options.directory),
+	});
+
+	if (options.http) {
+		await serveHttp(store, options.port);
+	} else {
+		await serveStdio(store);
+	}
+}
+
+main().catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exit(1);
+});
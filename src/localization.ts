@@ -0,0 +1,161 @@
+import type { ExpertiseContent, ExpertiseTranslation } from "./types";
+
+// ============================================================================
+// Localization
+// Translations are overlay files next to the domain file. Each translated
+// item is merged field by field over the original, so anything untranslated
+// falls back to the file's default language.
+// ============================================================================
+
+/**
+ * Translation files (e.g. bbq-scoring.de.locale.yaml). They are loaded with
+ * their domain, never as domains themselves.
+ */
+export const LOCALE_SUFFIX = ".locale.yaml";
+
+export function isLocaleFile(filename: string): boolean {
+	return filename.endsWith(LOCALE_SUFFIX);
+}
+
+/**
+ * Name of the translation file for a domain file and locale.
+ */
+export function localeFileName(filename: string, locale: string): string {
+	return `${filename.replace(/\.yaml$/, "")}.${locale}${LOCALE_SUFFIX}`;
+}
+
+/**
+ * Pick the translation that serves a requested locale, or undefined to use the
+ * content as written. "de-AT" is served by "de" when there is no "de-AT".
+ */
+export function matchLocale(
+	content: ExpertiseContent,
+	requested: string,
+): string | undefined {
+	const available = content.meta.locales ?? [];
+	const wanted = requested.toLowerCase();
+	const language = wanted.split("-")[0];
+	return (
+		available.find((l) => l.toLowerCase() === wanted) ??
+		available.find((l) => l.toLowerCase() === language)
+	);
+}
+
+// Keyed sections of a translation, and the field identifying an original item
+const ITEM_SECTIONS = {
+	principles: "name",
+	checkpoints: "id",
+	categories: "id",
+	requirements: "name",
+} as const;
+
+// Fields that identify or scope an item rather than describe it
+const UNTRANSLATED_FIELDS = new Set(["id", "categories"]);
+
+/**
+ * Merge a translation over expertise content.
+ * Throws if the translation refers to items the content doesn't have.
+ */
+export function applyTranslation(
+	content: ExpertiseContent,
+	translation: ExpertiseTranslation,
+	locale: string,
+): ExpertiseContent {
+	const unknown: string[] = [];
+	const translateItems = <T extends object>(
+		section: keyof typeof ITEM_SECTIONS,
+		items: T[] | undefined,
+	): T[] | undefined => {
+		const overlays = translation[section] ?? {};
+		const idField = ITEM_SECTIONS[section] as keyof T;
+		const ids = new Set(items?.map((item) => String(item[idField])));
+		for (const key of Object.keys(overlays)) {
+			if (!ids.has(key)) unknown.push(`${section}.${key}`);
+		}
+		return items?.map((item) => ({
+			...item,
+			...overlays[String(item[idField])],
+		}));
+	};
+
+	const qualityChecks = content.qualityChecks
+		? Object.fromEntries(
+				Object.entries(content.qualityChecks).map(([key, check]) => [
+					key,
+					{ ...check, ...translation.qualityChecks?.[key] },
+				]),
+			)
+		: undefined;
+	for (const key of Object.keys(translation.qualityChecks ?? {})) {
+		if (!content.qualityChecks?.[key]) unknown.push(`qualityChecks.${key}`);
+	}
+
+	const translated: ExpertiseContent = {
+		...content,
+		meta: { ...content.meta, ...translation.meta, locale },
+		principles: translateItems("principles", content.principles) ?? [],
+		checkpoints: translateItems("checkpoints", content.checkpoints) ?? [],
+		categories: translateItems("categories", content.categories),
+		qualityChecks,
+		reviewGuidance: {
+			...content.reviewGuidance,
+			...translation.reviewGuidance,
+		},
+		requirements: translateItems("requirements", content.requirements),
+	};
+
+	if (unknown.length > 0) {
+		throw new Error(
+			`Translation refers to items that don't exist: ${unknown.join(", ")}`,
+		);
+	}
+	return translated;
+}
+
+/**
+ * List what a translation leaves in the default language, as paths like
+ * "checkpoints.intro" (whole item) or "checkpoints.intro.purpose" (one field).
+ */
+export function findUntranslated(
+	content: ExpertiseContent,
+	translation: ExpertiseTranslation | undefined,
+): string[] {
+	const missing: string[] = [];
+	const compare = (
+		path: string,
+		original: object,
+		overlay: object | undefined,
+	) => {
+		if (!overlay) {
+			missing.push(path);
+			return;
+		}
+		for (const [field, value] of Object.entries(original)) {
+			const empty =
+				value === undefined || (Array.isArray(value) && value.length === 0);
+			if (!empty && !UNTRANSLATED_FIELDS.has(field) && !(field in overlay)) {
+				missing.push(`${path}.${field}`);
+			}
+		}
+	};
+
+	for (const field of ["domain", "description"] as const) {
+		if (!translation?.meta?.[field]) missing.push(`meta.${field}`);
+	}
+	for (const [section, idField] of Object.entries(ITEM_SECTIONS)) {
+		const key = section as keyof typeof ITEM_SECTIONS;
+		for (const item of content[key] ?? []) {
+			const id = String(item[idField as keyof typeof item]);
+			compare(`${section}.${id}`, item, translation?.[key]?.[id]);
+		}
+	}
+	for (const [key, check] of Object.entries(content.qualityChecks ?? {})) {
+		compare(`qualityChecks.${key}`, check, translation?.qualityChecks?.[key]);
+	}
+	compare(
+		"reviewGuidance",
+		content.reviewGuidance,
+		translation?.reviewGuidance,
+	);
+	return missing;
+}
@@ -0,0 +1,157 @@
+import YAML from "yaml";
+import { SCHEMA_VERSION } from "./types";
+
+// ============================================================================
+// Schema Migrations
+// Upgrades expertise YAML written for an older schema version to the current
+// one. Migrations edit the parsed YAML document rather than plain data, so the
+// migrate script can rewrite files in place and keep their comments.
+// ============================================================================
+
+/**
+ * One step in the migration pipeline.
+ */
+interface Migration {
+	/** Version this migration upgrades from */
+	from: string;
+	/** Version it upgrades to */
+	to: string;
+	/** What changed, shown by the migrate script */
+	description: string;
+	/** Reshape the document (the version field is updated afterwards) */
+	apply(doc: YAML.Document): void;
+}
+
+// In order; each migration's `to` is the next one's `from`.
+// Steps that only add optional fields have nothing to reshape, but still bump
+// the version: a server from before the step would load a file that uses the
+// new fields and silently ignore them (dropping everything an `extends`
+// brings in, for example). The bump makes it refuse the file instead.
+const MIGRATIONS: Migration[] = [
+	{
+		from: "1.0.0",
+		to: "1.1.0",
+		description:
+			"Adds optional category scoping, rubric and extends. Existing content is unchanged.",
+		apply: () => {},
+	},
+	{
+		from: "1.1.0",
+		to: "1.2.0",
+		description:
+			"Adds optional meta.locale and meta.locales for translations. Existing content is unchanged.",
+		apply: () => {},
+	},
+];
+
+/**
+ * Versions a file can be written for and still load, newest first: the
+ * current one and every version with a migration path.
+ */
+export const SUPPORTED_VERSIONS = [
+	SCHEMA_VERSION,
+	...MIGRATIONS.map((migration) => migration.from).reverse(),
+];
+
+/**
+ * Result of migrating a document.
+ */
+export interface MigrationResult {
+	/** Version the document was written for (undefined if it had none) */
+	from?: string;
+	/** Descriptions of the migrations applied, in order */
+	applied: string[];
+	/** Whether the document was modified */
+	changed: boolean;
+}
+
+/**
+ * Upgrade a parsed expertise document to SCHEMA_VERSION in place.
+ * Documents without a version are left alone: fragments may omit it, and
+ * schema validation reports it missing for domain files.
+ * Throws for versions newer than SCHEMA_VERSION or with no migration path.
+ */
+export function migrateExpertise(
+	doc: YAML.Document,
+	filename: string,
+): MigrationResult {
+	const node = doc.get("version", true);
+	const raw = YAML.isScalar(node) ? node.value : node;
+	if (raw === undefined || raw === null) {
+		return { applied: [], changed: false };
+	}
+
+	const from = String(raw);
+	const parsed = parseVersion(from);
+	if (!parsed) {
+		throw new Error(
+			`${filename}: version "${from}" is not a schema version (expected e.g. "${SCHEMA_VERSION}")`,
+		);
+	}
+	if (compareVersions(parsed, parseVersion(SCHEMA_VERSION) ?? []) > 0) {
+		throw new Error(
+			`${filename} was written for schema version ${from}, which is newer than this server supports (${SCHEMA_VERSION}). Upgrade the server to load it.`,
+		);
+	}
+
+	const applied: string[] = [];
+	let version = normalizeVersion(parsed);
+	while (version !== SCHEMA_VERSION) {
+		const migration = MIGRATIONS.find((m) => m.from === version);
+		if (!migration) {
+			throw new Error(
+				`${filename}: schema version ${from} is no longer supported and cannot be migrated to ${SCHEMA_VERSION}`,
+			);
+		}
+		migration.apply(doc);
+		applied.push(
+			`${migration.from} -> ${migration.to}: ${migration.description}`,
+		);
+		version = migration.to;
+	}
+
+	// Also rewrites equivalent spellings (e.g. 1.1) to the canonical version
+	const changed = raw !== SCHEMA_VERSION;
+	if (changed) {
+		// Keep the scalar node so quoting and comments survive a rewrite
+		if (YAML.isScalar(node)) {
+			node.value = SCHEMA_VERSION;
+		} else {
+			doc.set("version", SCHEMA_VERSION);
+		}
+	}
+	return { from, applied, changed };
+}
+
+/**
+ * Parse expertise YAML and migrate it to the current schema version.
+ * Throws on YAML syntax errors and on versions that cannot be migrated.
+ */
+export function parseExpertise(text: string, filename: string): unknown {
+	const doc = YAML.parseDocument(text);
+	if (doc.errors.length > 0) {
+		throw doc.errors[0];
+	}
+	migrateExpertise(doc, filename);
+	return doc.toJS();
+}
+
+/**
+ * Parse "1", "1.1" or "1.1.0" into [major, minor, patch].
+ */
+function parseVersion(version: string): number[] | undefined {
+	const match = version.match(/^(\d+)(?:\.(\d+))?(?:\.(\d+))?$/);
+	return match ? match.slice(1).map((part) => Number(part ?? 0)) : undefined;
+}
+
+function normalizeVersion(parts: number[]): string {
+	return parts.join(".");
+}
+
+function compareVersions(a: number[], b: number[]): number {
+	for (let i = 0; i < 3; i++) {
+		const diff = (a[i] ?? 0) - (b[i] ?? 0);
+		if (diff !== 0) return diff;
+	}
+	return 0;
+}
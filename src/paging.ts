@@ -0,0 +1,371 @@
+import type {
+	ExpertiseContext,
+	PageInfo,
+	QualityChecks,
+	ReviewContext,
+} from "./types";
+
+// ============================================================================
+// Paging
+// Splits load and review responses into pages of items, walking the sections
+// in a fixed order, so small context windows can step through large domains.
+// ============================================================================
+
+// Bump when the cursor layout changes; older cursors are then rejected
+const CURSOR_VERSION = 1;
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Where a page starts.
+ */
+export interface PagePosition {
+	/** Section name (e.g. "checkpoints") */
+	section: string;
+	/** Index of the first item in the section */
+	offset: number;
+	/** ID of the item just before offset, used to detect content changes */
+	after?: string;
+}
+
+/**
+ * A request for one page of a response.
+ */
+export interface PageRequest {
+	/** Maximum items per page */
+	size: number;
+	/** Where to start (omit for the first page) */
+	start?: PagePosition;
+	/** Encode a cursor for the page starting at the given position */
+	cursor(next: PagePosition): string;
+}
+
+/**
+ * Decoded cursor contents. Field names are kept short since cursors are sent
+ * back and forth on every page.
+ */
+interface CursorData {
+	/** Cursor format version */
+	v: number;
+	/** Tool the cursor was issued by */
+	t: string;
+	/** Fingerprint of the tool's other arguments */
+	h: string;
+	/** Page start */
+	s: string;
+	o: number;
+	a?: string;
+}
+
+/**
+ * Create a page request for a tool call, or undefined if the caller asked for
+ * neither a page size nor a cursor.
+ *
+ * @param tool - Tool name, so a cursor can't be replayed against another tool
+ * @param args - The tool's arguments other than the cursor (including page_size)
+ * @param cursor - Cursor from a previous page, if any
+ */
+export function createPageRequest(
+	tool: string,
+	args: { page_size?: number } & Record<string, unknown>,
+	cursor: string | undefined,
+): PageRequest | undefined {
+	if (args.page_size === undefined && cursor === undefined) {
+		return undefined;
+	}
+
+	const fingerprint = hashArguments(args);
+	return {
+		size: args.page_size ?? DEFAULT_PAGE_SIZE,
+		start: cursor ? decodeCursor(cursor, tool, fingerprint) : undefined,
+		cursor: (next) =>
+			encodeCursor({
+				v: CURSOR_VERSION,
+				t: tool,
+				h: fingerprint,
+				s: next.section,
+				o: next.offset,
+				a: next.after,
+			}),
+	};
+}
+
+function encodeCursor(data: CursorData): string {
+	const bytes = new TextEncoder().encode(JSON.stringify(data));
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+function decodeCursor(
+	cursor: string,
+	tool: string,
+	fingerprint: string,
+): PagePosition {
+	let data: CursorData;
+	try {
+		const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+		const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+		data = JSON.parse(new TextDecoder().decode(bytes));
+	} catch {
+		throw new Error("Invalid cursor. Start again without a cursor.");
+	}
+
+	if (
+		data?.v !== CURSOR_VERSION ||
+		typeof data.s !== "string" ||
+		!Number.isInteger(data.o) ||
+		data.o < 0
+	) {
+		throw new Error(
+			"Invalid or outdated cursor. Start again without a cursor.",
+		);
+	}
+	if (data.t !== tool) {
+		throw new Error(`This cursor was issued by ${data.t}, not ${tool}.`);
+	}
+	if (data.h !== fingerprint) {
+		throw new Error(
+			"This cursor was issued for different arguments. Repeat the original arguments with the cursor.",
+		);
+	}
+	return { section: data.s, offset: data.o, after: data.a };
+}
+
+/**
+ * Fingerprint tool arguments (FNV-1a over key-sorted JSON).
+ */
+function hashArguments(args: Record<string, unknown>): string {
+	const text = JSON.stringify(args, Object.keys(args).sort());
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// ============================================================================
+// Paged Sections
+// ============================================================================
+
+/**
+ * A list-like part of a context that is split across pages.
+ */
+interface PagedSection<T> {
+	name: string;
+	/** IDs of the section's items, in order */
+	ids(context: T): string[];
+	/** Keep only items [start, end); removes the section when that is empty */
+	keep(context: T, start: number, end: number): void;
+}
+
+/**
+ * Cut one page out of a context.
+ * Sections are walked in order; a page fills up from the start position and
+ * may span several sections.
+ */
+function paginate<T extends { page?: PageInfo }>(
+	context: T,
+	sections: PagedSection<T>[],
+	request: PageRequest,
+): T {
+	const result = { ...context };
+	const allIds = sections.map((s) => s.ids(context));
+	const { start } = request;
+
+	let startIndex = 0;
+	if (start) {
+		startIndex = sections.findIndex((s) => s.name === start.section);
+		const ids = allIds[startIndex];
+		if (
+			!ids ||
+			start.offset > ids.length ||
+			(start.offset > 0 && ids[start.offset - 1] !== start.after)
+		) {
+			throw new Error(
+				"The expertise changed since this cursor was issued. Start again without a cursor.",
+			);
+		}
+	}
+
+	let remaining = request.size;
+	let next: PagePosition | undefined;
+	const summary: PageInfo["sections"] = [];
+
+	sections.forEach((section, i) => {
+		const ids = allIds[i];
+		if (i < startIndex || next) {
+			section.keep(result, 0, 0);
+			return;
+		}
+
+		const from = i === startIndex && start ? start.offset : 0;
+		const count = Math.min(remaining, ids.length - from);
+		section.keep(result, from, from + count);
+		if (count > 0) {
+			summary.push({
+				section: section.name,
+				offset: from,
+				count,
+				total: ids.length,
+			});
+		}
+		remaining -= count;
+
+		if (remaining === 0 && !next) {
+			if (from + count < ids.length) {
+				next = {
+					section: section.name,
+					offset: from + count,
+					after: ids[from + count - 1],
+				};
+			} else {
+				const later = allIds.findIndex((l, j) => j > i && l.length > 0);
+				if (later !== -1) {
+					next = { section: sections[later].name, offset: 0 };
+				}
+			}
+		}
+	});
+
+	result.page = {
+		pageSize: request.size,
+		sections: summary,
+		nextCursor: next ? request.cursor(next) : undefined,
+	};
+	return result;
+}
+
+/**
+ * A paged list section.
+ */
+function listSection<T, Item>(
+	name: string,
+	get: (context: T) => Item[] | undefined,
+	set: (context: T, items: Item[] | undefined) => void,
+	id: (item: Item) => string,
+): PagedSection<T> {
+	return {
+		name,
+		ids: (context) => (get(context) ?? []).map(id),
+		keep(context, start, end) {
+			const items = (get(context) ?? []).slice(start, end);
+			set(context, items.length > 0 ? items : undefined);
+		},
+	};
+}
+
+/**
+ * The paged quality checks section.
+ */
+function qualityChecksSection<
+	T extends { qualityChecks?: QualityChecks },
+>(): PagedSection<T> {
+	return {
+		name: "qualityChecks",
+		ids: (context) => Object.keys(context.qualityChecks ?? {}),
+		keep(context, start, end) {
+			const entries = Object.entries(context.qualityChecks ?? {}).slice(
+				start,
+				end,
+			);
+			context.qualityChecks =
+				entries.length > 0 ? Object.fromEntries(entries) : undefined;
+		},
+	};
+}
+
+// ============================================================================
+// Paged Contexts
+// ============================================================================
+
+/**
+ * Cut one page out of a load context.
+ * Section order: checkpoints, qualityChecks, categories, principles, requirements.
+ */
+export function pageExpertiseContext(
+	context: ExpertiseContext,
+	request: PageRequest,
+): ExpertiseContext {
+	return paginate(
+		context,
+		[
+			listSection(
+				"checkpoints",
+				(c) => c.completeness?.checkpoints,
+				(c, items) => {
+					c.completeness =
+						items && c.completeness
+							? { ...c.completeness, checkpoints: items }
+							: undefined;
+				},
+				(cp) => cp.id,
+			),
+			qualityChecksSection(),
+			listSection(
+				"categories",
+				(c) => c.categories,
+				(c, items) => {
+					c.categories = items;
+				},
+				(category) => category.id,
+			),
+			listSection(
+				"principles",
+				(c) => c.principles,
+				(c, items) => {
+					c.principles = items;
+				},
+				(p) => p.name,
+			),
+			listSection(
+				"requirements",
+				(c) => c.requirements,
+				(c, items) => {
+					c.requirements = items;
+				},
+				(r) => r.name,
+			),
+		],
+		request,
+	);
+}
+
+/**
+ * Cut one page out of a review context.
+ * Section order: checkpoints, qualityChecks, principles.
+ */
+export function pageReviewContext(
+	context: ReviewContext,
+	request: PageRequest,
+): ReviewContext {
+	return paginate(
+		context,
+		[
+			listSection(
+				"checkpoints",
+				(c) => c.checkpoints,
+				(c, items) => {
+					c.checkpoints = items;
+				},
+				(cp) => cp.id,
+			),
+			qualityChecksSection(),
+			listSection(
+				"principles",
+				(c) => c.principles,
+				(c, items) => {
+					c.principles = items;
+				},
+				(p) => p.name,
+			),
+		],
+		request,
+	);
+}
@@ -0,0 +1,588 @@
+import type {
+	DomainMatch,
+	ExpertiseContent,
+	RecommendedToolCall,
+	RoutingIntent,
+	SearchHit,
+	SearchSection,
+} from "./types";
+import { appliesToCategory, getToolPrefix } from "./types";
+
+// ============================================================================
+// Expertise Search
+// Ranks the individual guidelines, indicators, problems and checks of one
+// domain against a query with BM25, so assistants can fetch only the slices
+// they need instead of the whole context.
+// ============================================================================
+
+// BM25 parameters (the common defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Words too common to help ranking
+const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"do",
+	"does",
+	"for",
+	"from",
+	"how",
+	"in",
+	"is",
+	"it",
+	"of",
+	"on",
+	"or",
+	"that",
+	"the",
+	"this",
+	"to",
+	"was",
+	"what",
+	"when",
+	"which",
+	"with",
+]);
+
+// Derivational suffixes stripped by the stemmer, longest first
+const SUFFIXES = [
+	"ational",
+	"ization",
+	"fulness",
+	"iveness",
+	"ousness",
+	"ation",
+	"ement",
+	"ment",
+	"ness",
+	"able",
+	"ible",
+	"ing",
+	"ive",
+	"ize",
+	"ise",
+	"ity",
+	"ful",
+	"ous",
+	"ed",
+	"er",
+	"ly",
+	"al",
+];
+
+/**
+ * Text reduced to stemmed term counts.
+ */
+interface IndexedText {
+	/** Term frequencies */
+	terms: Map<string, number>;
+	/** Number of terms */
+	length: number;
+}
+
+/**
+ * Documents plus the statistics BM25 needs.
+ */
+interface Corpus<T extends IndexedText> {
+	documents: T[];
+	/** Number of documents containing each term */
+	documentFrequency: Map<string, number>;
+	averageLength: number;
+}
+
+/**
+ * One indexed piece of text (a single guideline, indicator, problem, ...).
+ */
+interface SearchDocument extends IndexedText {
+	section: SearchSection;
+	id: string;
+	name: string;
+	path: string;
+	text: string;
+	/** Resource path relative to the domain (e.g. "checkpoints/intro"), if any */
+	resourcePath?: string;
+}
+
+/**
+ * An inverted index over one domain's expertise.
+ */
+type SearchIndex = Corpus<SearchDocument>;
+
+// Indexes are built once per parsed content object and dropped with it
+const indexCache = new WeakMap<ExpertiseContent, SearchIndex>();
+
+/**
+ * Reduce a word to a crude stem so "configuring", "configured" and
+ * "configuration" match each other. Queries and documents share the same
+ * stemmer, so consistency matters more than linguistic accuracy.
+ */
+export function stem(word: string): string {
+	let w = word;
+
+	// Plurals
+	if (w.endsWith("sses")) {
+		w = w.slice(0, -2);
+	} else if (w.endsWith("ies") && w.length > 4) {
+		w = `${w.slice(0, -3)}y`;
+	} else if (
+		w.endsWith("s") &&
+		!w.endsWith("ss") &&
+		!w.endsWith("us") &&
+		!w.endsWith("is") &&
+		w.length > 3
+	) {
+		w = w.slice(0, -1);
+	}
+
+	// One derivational or inflectional suffix, keeping a stem of 3+ letters
+	for (const suffix of SUFFIXES) {
+		if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+			w = w.slice(0, -suffix.length);
+			break;
+		}
+	}
+
+	// "stopp" -> "stop", "judge" -> "judg"
+	if (/([^aeiouslz])\1$/.test(w)) {
+		w = w.slice(0, -1);
+	} else if (w.endsWith("e") && w.length > 3) {
+		w = w.slice(0, -1);
+	}
+
+	return w;
+}
+
+/**
+ * Split text into stemmed search terms.
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+		.map(stem);
+}
+
+/**
+ * Get (or build) the search index for a domain.
+ */
+function getSearchIndex(content: ExpertiseContent): SearchIndex {
+	const cached = indexCache.get(content);
+	if (cached) {
+		return cached;
+	}
+
+	const documents: SearchDocument[] = [];
+	const add = (entry: Omit<SearchDocument, "terms" | "length">) => {
+		const counted = countTerms(entry.text);
+		if (counted.length > 0) {
+			documents.push({ ...entry, ...counted });
+		}
+	};
+
+	for (const p of content.principles) {
+		const base = { section: "principles" as const, id: p.name, name: p.name };
+		const resourcePath = "principles";
+		if (p.description) {
+			add({
+				...base,
+				path: `principles[${p.name}].description`,
+				text: p.description,
+				resourcePath,
+			});
+		}
+		p.guidelines.forEach((text, i) => {
+			add({
+				...base,
+				path: `principles[${p.name}].guidelines[${i}]`,
+				text,
+				resourcePath,
+			});
+		});
+		p.examples?.forEach((ex, i) => {
+			add({
+				...base,
+				path: `principles[${p.name}].examples[${i}]`,
+				text: [ex.bad, ex.good, ex.explanation].filter(Boolean).join(" → "),
+				resourcePath,
+			});
+		});
+	}
+
+	for (const cp of content.checkpoints) {
+		const base = {
+			section: "checkpoints" as const,
+			id: cp.id,
+			name: cp.name,
+			resourcePath: `checkpoints/${encodeURIComponent(cp.id)}`,
+		};
+		add({
+			...base,
+			path: `checkpoints[${cp.id}].purpose`,
+			text: `${cp.name}: ${cp.purpose}`,
+		});
+		cp.whatIndicatesPresence.forEach((text, i) => {
+			add({
+				...base,
+				path: `checkpoints[${cp.id}].whatIndicatesPresence[${i}]`,
+				text,
+			});
+		});
+		cp.commonProblems.forEach((text, i) => {
+			add({
+				...base,
+				path: `checkpoints[${cp.id}].commonProblems[${i}]`,
+				text,
+			});
+		});
+		cp.clarifyingQuestions?.forEach((text, i) => {
+			add({
+				...base,
+				path: `checkpoints[${cp.id}].clarifyingQuestions[${i}]`,
+				text,
+			});
+		});
+	}
+
+	for (const [key, check] of Object.entries(content.qualityChecks ?? {})) {
+		const base = {
+			section: "qualityChecks" as const,
+			id: key,
+			name: key,
+			resourcePath: `quality/${encodeURIComponent(key)}`,
+		};
+		add({
+			...base,
+			path: `qualityChecks[${key}].whatToCheck`,
+			text: check.whatToCheck,
+		});
+		add({
+			...base,
+			path: `qualityChecks[${key}].whyItMatters`,
+			text: check.whyItMatters,
+		});
+		check.examples.forEach((ex, i) => {
+			add({
+				...base,
+				path: `qualityChecks[${key}].examples[${i}]`,
+				text: [ex.bad, ex.good, ex.explanation].filter(Boolean).join(" → "),
+			});
+		});
+	}
+
+	for (const category of content.categories ?? []) {
+		const base = {
+			section: "categories" as const,
+			id: category.id,
+			name: category.name,
+			resourcePath: `categories/${encodeURIComponent(category.id)}`,
+		};
+		add({
+			...base,
+			path: `categories[${category.id}].description`,
+			text: `${category.name}: ${category.description}`,
+		});
+		for (const field of [
+			"indicators",
+			"considerations",
+			"commonPatterns",
+		] as const) {
+			category[field]?.forEach((text, i) => {
+				add({
+					...base,
+					path: `categories[${category.id}].${field}[${i}]`,
+					text,
+				});
+			});
+		}
+	}
+
+	for (const req of content.requirements ?? []) {
+		const base = {
+			section: "requirements" as const,
+			id: req.name,
+			name: req.name,
+		};
+		add({
+			...base,
+			path: `requirements[${req.name}].description`,
+			text: req.description,
+		});
+		req.triggers.forEach((text, i) => {
+			add({ ...base, path: `requirements[${req.name}].triggers[${i}]`, text });
+		});
+		req.caveats?.forEach((text, i) => {
+			add({ ...base, path: `requirements[${req.name}].caveats[${i}]`, text });
+		});
+	}
+
+	const index = buildCorpus(documents);
+	indexCache.set(content, index);
+	return index;
+}
+
+/**
+ * Count the stemmed terms in a piece of text.
+ */
+function countTerms(text: string): {
+	terms: Map<string, number>;
+	length: number;
+} {
+	const tokens = tokenize(text);
+	const terms = new Map<string, number>();
+	for (const token of tokens) {
+		terms.set(token, (terms.get(token) ?? 0) + 1);
+	}
+	return { terms, length: tokens.length };
+}
+
+/**
+ * Collect the corpus statistics BM25 needs.
+ */
+function buildCorpus<T extends IndexedText>(documents: T[]): Corpus<T> {
+	const documentFrequency = new Map<string, number>();
+	let totalLength = 0;
+	for (const doc of documents) {
+		totalLength += doc.length;
+		for (const term of doc.terms.keys()) {
+			documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+		}
+	}
+	return {
+		documents,
+		documentFrequency,
+		averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+	};
+}
+
+/**
+ * BM25 score of one document for a set of (unique) query terms.
+ */
+function bm25<T extends IndexedText>(
+	corpus: Corpus<T>,
+	doc: T,
+	queryTerms: string[],
+): number {
+	const n = corpus.documents.length;
+	let score = 0;
+	for (const term of queryTerms) {
+		const tf = doc.terms.get(term);
+		if (!tf) continue;
+		const df = corpus.documentFrequency.get(term) ?? 0;
+		const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+		score +=
+			(idf * tf * (BM25_K1 + 1)) /
+			(tf +
+				BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / corpus.averageLength));
+	}
+	return score;
+}
+
+/**
+ * Rank a domain's expertise against a query with BM25.
+ * Returns the best matches first, with their section path and owning ID.
+ */
+export function searchExpertise(
+	content: ExpertiseContent,
+	query: string,
+	options: { sections?: SearchSection[]; limit?: number } = {},
+): { total: number; hits: (SearchHit & { resourcePath?: string })[] } {
+	const { sections, limit = 10 } = options;
+	const index = getSearchIndex(content);
+	const queryTerms = [...new Set(tokenize(query))];
+
+	const scored: (SearchHit & { resourcePath?: string })[] = [];
+	for (const doc of index.documents) {
+		if (sections && !sections.includes(doc.section)) continue;
+
+		const score = bm25(index, doc, queryTerms);
+		if (score > 0) {
+			scored.push({
+				section: doc.section,
+				id: doc.id,
+				name: doc.name,
+				path: doc.path,
+				text: doc.text,
+				score: Number(score.toFixed(4)),
+				resourcePath: doc.resourcePath,
+			});
+		}
+	}
+
+	scored.sort((a, b) => b.score - a.score);
+	return { total: scored.length, hits: scored.slice(0, limit) };
+}
+
+// ============================================================================
+// Domain Routing
+// Ranks loaded domains for a task description so assistants know which
+// domain's tools to call without loading every domain first.
+// ============================================================================
+
+// How many of a domain's best matches count toward its score, so large
+// domains don't win on size alone
+const ROUTING_TOP_MATCHES = 5;
+
+/**
+ * Domain-level text used for routing: the domain's metadata, each category
+ * and each checkpoint.
+ */
+interface RoutingDocument extends IndexedText {
+	kind: "domain" | "category" | "checkpoint";
+	id: string;
+	content: ExpertiseContent;
+}
+
+// Routing documents per parsed content object
+const routingCache = new WeakMap<ExpertiseContent, RoutingDocument[]>();
+
+function getRoutingDocuments(content: ExpertiseContent): RoutingDocument[] {
+	const cached = routingCache.get(content);
+	if (cached) {
+		return cached;
+	}
+
+	const documents: RoutingDocument[] = [];
+	const add = (kind: RoutingDocument["kind"], id: string, parts: string[]) => {
+		const counted = countTerms(parts.join(" "));
+		if (counted.length > 0) {
+			documents.push({ kind, id, content, ...counted });
+		}
+	};
+
+	add("domain", content.meta.toolPrefix, [
+		content.meta.domain,
+		content.meta.description,
+	]);
+	for (const category of content.categories ?? []) {
+		add("category", category.id, [
+			category.name,
+			category.description,
+			...category.indicators,
+		]);
+	}
+	for (const cp of content.checkpoints) {
+		add("checkpoint", cp.id, [
+			cp.name,
+			cp.purpose,
+			...cp.whatIndicatesPresence,
+		]);
+	}
+
+	routingCache.set(content, documents);
+	return documents;
+}
+
+/**
+ * Suggest the tool calls that fit the task for a matched domain.
+ */
+function recommendCalls(
+	content: ExpertiseContent,
+	task: string,
+	category: string | undefined,
+	intent: RoutingIntent | undefined,
+): RecommendedToolCall[] {
+	const prefix = getToolPrefix(content.meta);
+	const args = category ? { category } : {};
+	const review = {
+		tool: `review_${prefix}_content`,
+		arguments: args,
+		reason: "Get criteria for reviewing the user's existing content.",
+	};
+	const load = {
+		tool: `load_${prefix}_context`,
+		arguments: args,
+		reason: "Load guidance for creating or improving content.",
+	};
+
+	const calls: RecommendedToolCall[] = [];
+	if (intent === "score") {
+		calls.push(
+			content.rubric
+				? {
+						tool: `get_${prefix}_rubric`,
+						arguments: args,
+						reason: "Get the scoring rubric and aggregation formula.",
+					}
+				: review,
+		);
+	} else if (intent === "review") {
+		calls.push(review);
+	} else if (intent === "create") {
+		calls.push(load);
+	} else {
+		calls.push(review, load);
+	}
+	calls.push({
+		tool: `search_${prefix}_expertise`,
+		arguments: { query: task },
+		reason: "Pull only the guidance that matches the task.",
+	});
+	return calls;
+}
+
+/**
+ * Rank loaded domains for a short task description.
+ * Each domain's score is the sum of its best BM25 matches across metadata,
+ * category indicators and checkpoints. Domains without any match are omitted.
+ */
+export function findExpertise(
+	domains: ExpertiseContent[],
+	task: string,
+	options: { intent?: RoutingIntent; limit?: number } = {},
+): DomainMatch[] {
+	const { intent, limit = 3 } = options;
+	const corpus = buildCorpus(domains.flatMap(getRoutingDocuments));
+	const queryTerms = [...new Set(tokenize(task))];
+
+	// Score every document, grouped by domain
+	const byDomain = new Map<
+		ExpertiseContent,
+		{ doc: RoutingDocument; score: number }[]
+	>();
+	for (const doc of corpus.documents) {
+		const score = bm25(corpus, doc, queryTerms);
+		if (score <= 0) continue;
+		const matches = byDomain.get(doc.content) ?? [];
+		matches.push({ doc, score });
+		byDomain.set(doc.content, matches);
+	}
+
+	const results: DomainMatch[] = [];
+	for (const [content, matches] of byDomain) {
+		matches.sort((a, b) => b.score - a.score);
+		const score = matches
+			.slice(0, ROUTING_TOP_MATCHES)
+			.reduce((sum, m) => sum + m.score, 0);
+
+		const category = matches.find((m) => m.doc.kind === "category")?.doc.id;
+		const checkpoints = matches
+			.filter((m) => m.doc.kind === "checkpoint")
+			.map((m) => m.doc.id)
+			.filter((id) => {
+				const cp = content.checkpoints.find((c) => c.id === id);
+				return cp ? appliesToCategory(cp, category) : false;
+			})
+			.slice(0, 3);
+
+		results.push({
+			domain: content.meta.domain,
+			toolPrefix: getToolPrefix(content.meta),
+			description: content.meta.description,
+			score: Number(score.toFixed(4)),
+			category,
+			matchedCheckpoints: checkpoints,
+			recommendedCalls: recommendCalls(content, task, category, intent),
+		});
+	}
+
+	results.sort((a, b) => b.score - a.score);
+	return results.slice(0, limit);
+}
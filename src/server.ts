@@ -0,0 +1,1304 @@
+import {
+	type McpServer,
+	ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { ExpertiseContent, ExpertiseDiagnostic } from "./types";
+import {
+	CapabilitiesSchema,
+	ExpertiseContextSchema,
+	FindExpertiseResultsSchema,
+	getLocales,
+	getToolPrefix,
+	resourceUri,
+	EXPORT_FORMATS,
+	ReviewContextSchema,
+	ROUTING_INTENTS,
+	RubricContextSchema,
+	RulesExportSchema,
+	SEARCH_SECTIONS,
+	SearchResultsSchema,
+} from "./types";
+import type { ExpertiseStore } from "./store";
+import {
+	getAllExpertiseContent,
+	loadExpertiseFile,
+	validationErrors,
+} from "./loader";
+import {
+	buildCapabilities,
+	buildExpertiseContext,
+	buildPromptText,
+	buildReviewContext,
+	buildRubricContext,
+	formatAllCapabilities,
+	formatGuidelines,
+	splitPromptList,
+} from "./context";
+import { exportRules } from "./export";
+import { findExpertise, searchExpertise } from "./search";
+import { createPageRequest, DEFAULT_PAGE_SIZE } from "./paging";
+
+// ============================================================================
+// MCP Server Registration
+// Shared by the Cloudflare Worker (src/index.ts) and the local runner (src/local.ts)
+// ============================================================================
+
+/**
+ * Server identity reported to MCP clients.
+ */
+export const SERVER_INFO = {
+	name: "MCP Expertise Server",
+	version: "1.0.0",
+};
+
+/**
+ * Server options shared by all entrypoints.
+ * List-changed notifications are debounced so a sync that registers or removes
+ * many items at once produces a single notification per list.
+ */
+export const SERVER_OPTIONS = {
+	debouncedNotificationMethods: [
+		"notifications/tools/list_changed",
+		"notifications/resources/list_changed",
+		"notifications/prompts/list_changed",
+	],
+};
+
+// Bounds for the max_tokens parameter of the context tools
+const MIN_TOKEN_BUDGET = 200;
+const MAX_TOKEN_BUDGET = 200_000;
+
+// Upper bound for the page_size parameter of the context tools
+const MAX_PAGE_SIZE = 200;
+
+// How often entrypoints re-check the store for added, removed or changed files
+export const REFRESH_INTERVAL_MS = 60 * 1000; // 1 minute
+
+/**
+ * Anything registered on the server that can later be removed.
+ */
+interface RegisteredHandle {
+	remove(): void;
+}
+
+/**
+ * Changes applied by a sync, listed by tool prefix.
+ */
+export interface ExpertiseSyncResult {
+	added: string[];
+	removed: string[];
+	updated: string[];
+}
+
+/**
+ * Keeps the server's tools, resources and prompts in step with the store.
+ * Each sync compares the files in the store with what is registered, removes
+ * domains whose file disappeared or whose registered metadata changed, and
+ * registers new ones. The SDK notifies connected clients that the lists changed.
+ */
+export class ExpertiseRegistry {
+	// Registered domains, keyed by filename
+	private readonly domains = new Map<
+		string,
+		{ prefix: string; signature: string; handles: RegisteredHandle[] }
+	>();
+	// Domains the last sync skipped, with why (keyed by filename)
+	private readonly skipped = new Map<string, ExpertiseDiagnostic[]>();
+	private statusTool?: RegisteredHandle;
+	private pendingSync?: Promise<ExpertiseSyncResult>;
+
+	constructor(
+		private readonly server: McpServer,
+		private readonly store: ExpertiseStore,
+	) {}
+
+	/**
+	 * Bring registrations in line with the store.
+	 * Concurrent callers share a single in-flight sync.
+	 */
+	sync(): Promise<ExpertiseSyncResult> {
+		if (!this.pendingSync) {
+			this.pendingSync = this.applySync().finally(() => {
+				this.pendingSync = undefined;
+			});
+		}
+		return this.pendingSync;
+	}
+
+	/** Tool prefixes of all registered domains */
+	get prefixes(): string[] {
+		return [...this.domains.values()].map((d) => d.prefix);
+	}
+
+	/** Whether a file's domain is registered (false if skipped, e.g. on a prefix collision) */
+	isRegistered(filename: string): boolean {
+		return this.domains.has(filename);
+	}
+
+	/** Why valid files were left unregistered in the last sync, keyed by filename */
+	get skippedDiagnostics(): ReadonlyMap<string, ExpertiseDiagnostic[]> {
+		return this.skipped;
+	}
+
+	private async applySync(): Promise<ExpertiseSyncResult> {
+		const allContent = await getAllExpertiseContent(this.store);
+		const current = new Map(allContent.map((c) => [c.filename, c.content]));
+		const removed: string[] = [];
+		const added: string[] = [];
+
+		// Remove domains whose file is gone or whose registered metadata changed
+		for (const [filename, domain] of this.domains) {
+			const content = current.get(filename);
+			if (
+				content &&
+				getToolPrefix(content.meta) === domain.prefix &&
+				registrationSignature(content) === domain.signature
+			) {
+				continue;
+			}
+			for (const handle of domain.handles) {
+				handle.remove();
+			}
+			this.domains.delete(filename);
+			removed.push(domain.prefix);
+		}
+
+		// Track registered prefixes to detect collisions
+		const registeredPrefixes = new Set(this.prefixes);
+		this.skipped.clear();
+
+		// Register tools for each new expertise domain
+		for (const { filename, content } of allContent) {
+			if (this.domains.has(filename)) {
+				continue;
+			}
+			const prefix = getToolPrefix(content.meta);
+
+			// Check for prefix collision
+			if (registeredPrefixes.has(prefix)) {
+				const owner = [...this.domains].find(([, d]) => d.prefix === prefix);
+				const message = `toolPrefix "${prefix}" is already used by ${owner?.[0] ?? "another domain"}; this domain's tools are not registered`;
+				console.warn(`Skipping ${filename}: ${message}`);
+				this.skipped.set(filename, [
+					{
+						severity: "error",
+						rule: "tool-prefix-collision",
+						message,
+						path: ["meta", "toolPrefix"],
+					},
+				]);
+				continue;
+			}
+			registeredPrefixes.add(prefix);
+
+			// Register tools, resources and prompts for this domain
+			const args = [
+				this.server,
+				this.store,
+				filename,
+				content,
+				prefix,
+			] as const;
+			this.domains.set(filename, {
+				prefix,
+				signature: registrationSignature(content),
+				handles: [
+					...registerDomainTools(...args),
+					...registerDomainResources(...args),
+					...registerDomainPrompts(...args),
+				],
+			});
+			added.push(prefix);
+		}
+
+		this.updateStatusTool();
+
+		// A prefix removed and re-added in the same sync (e.g. a renamed file or
+		// changed metadata) is an update
+		const updated = added.filter((prefix) => removed.includes(prefix));
+		const result = {
+			added: added.filter((prefix) => !updated.includes(prefix)),
+			removed: removed.filter((prefix) => !updated.includes(prefix)),
+			updated,
+		};
+		if (
+			result.added.length + result.removed.length + result.updated.length >
+			0
+		) {
+			console.log("Expertise domains changed:", result);
+		}
+		return result;
+	}
+
+	/**
+	 * Register a single tool that explains the setup is incomplete while no
+	 * domains are loaded, and remove it once one is.
+	 */
+	private updateStatusTool() {
+		if (this.domains.size > 0) {
+			this.statusTool?.remove();
+			this.statusTool = undefined;
+			return;
+		}
+		if (this.statusTool) {
+			return;
+		}
+		this.statusTool = this.server.tool(
+			"get_status",
+			"Check server status and configuration",
+			{},
+			async () => ({
+				content: [
+					{
+						type: "text",
+						text: `No expertise files found. Please upload one or more .yaml files to ${this.store.description}.\n\nSee the README for setup instructions.`,
+					},
+				],
+				isError: true,
+			}),
+		);
+	}
+}
+
+/**
+ * The parts of a domain baked into its registrations: descriptions, argument
+ * enums and completions. Registrations are replaced when this changes.
+ */
+function registrationSignature(content: ExpertiseContent): string {
+	return JSON.stringify({
+		domain: content.meta.domain,
+		description: content.meta.description,
+		categories: (content.categories ?? []).map((c) => c.id),
+		checkpoints: content.checkpoints.map((c) => c.id),
+		qualityChecks: Object.keys(content.qualityChecks ?? {}),
+		locales: getLocales(content.meta),
+	});
+}
+
+/**
+ * Make sure tool, resource, prompt and completion handlers are installed before
+ * the transport connects. The SDK only advertises a capability when the first
+ * item of that kind is registered and refuses new capabilities once connected,
+ * so a domain added later would otherwise fail to register.
+ */
+function primeRequestHandlers(server: McpServer) {
+	const placeholders: RegisteredHandle[] = [
+		server.tool("_placeholder", async () => ({ content: [] })),
+		server.prompt("_placeholder", async () => ({ messages: [] })),
+		server.resource(
+			"_placeholder",
+			new ResourceTemplate("placeholder://{id}", {
+				list: undefined,
+				complete: { id: () => [] },
+			}),
+			async () => ({ contents: [] }),
+		),
+	];
+	for (const placeholder of placeholders) {
+		placeholder.remove();
+	}
+}
+
+/**
+ * Register tools, resources and prompts for every expertise domain in the store.
+ * Returns the registry so entrypoints can re-sync when files change.
+ */
+export async function registerExpertise(
+	server: McpServer,
+	store: ExpertiseStore,
+): Promise<ExpertiseRegistry> {
+	primeRequestHandlers(server);
+
+	const registry = new ExpertiseRegistry(server, store);
+	await registry.sync();
+
+	// Register unified get_capabilities tool
+	server.registerTool(
+		"get_capabilities",
+		{
+			description:
+				"List all expertise domains and tools available from this MCP server.",
+			outputSchema: CapabilitiesSchema,
+		},
+		async () => {
+			try {
+				// Pick up added or removed files before reporting
+				await registry.sync();
+
+				// Only list domains whose tools exist; report the skipped ones
+				const currentContent = (await getAllExpertiseContent(store)).filter(
+					({ filename }) => registry.isRegistered(filename),
+				);
+				if (currentContent.length === 0) {
+					return {
+						content: [{ type: "text", text: "No expertise domains loaded." }],
+						isError: true,
+					};
+				}
+				const diagnostics = new Map([
+					...validationErrors,
+					...registry.skippedDiagnostics,
+				]);
+
+				// Markdown for people, structured content for programs
+				const capabilities = formatAllCapabilities(currentContent, diagnostics);
+				return {
+					content: [{ type: "text", text: capabilities }],
+					structuredContent: {
+						...buildCapabilities(currentContent, diagnostics),
+					},
+				};
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				return {
+					content: [{ type: "text", text: `Error: ${message}` }],
+					isError: true,
+				};
+			}
+		},
+	);
+
+	// Register unified find_expertise tool
+	server.registerTool(
+		"find_expertise",
+		{
+			description:
+				"Find which expertise domains fit a task. Describe the task in a few words (e.g. 'review the README for my CLI tool'); returns the best-matching domains with the tool calls and arguments to use next. Don't include the user's content—only a short description of the task.",
+			inputSchema: {
+				task: z
+					.string()
+					.min(1)
+					.max(500)
+					.describe("Short description of the task, not the content itself."),
+				intent: z
+					.enum(ROUTING_INTENTS)
+					.optional()
+					.describe(
+						"'create' to write or improve content, 'review' to critique it, 'score' to grade it. Omit if unsure.",
+					),
+				limit: z
+					.number()
+					.int()
+					.min(1)
+					.max(20)
+					.optional()
+					.describe("Maximum number of domains to return. Default: 3."),
+			},
+			outputSchema: FindExpertiseResultsSchema,
+		},
+		async ({ task, intent, limit }) => {
+			try {
+				// Pick up added or removed files before routing
+				await registry.sync();
+
+				const currentContent = (await getAllExpertiseContent(store)).filter(
+					({ filename }) => registry.isRegistered(filename),
+				);
+				if (currentContent.length === 0) {
+					return {
+						content: [{ type: "text", text: "No expertise domains loaded." }],
+						isError: true,
+					};
+				}
+
+				const domains = findExpertise(
+					currentContent.map(({ content }) => content),
+					task,
+					{ intent, limit },
+				);
+				return jsonToolResult({ task, domains });
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				return {
+					content: [{ type: "text", text: `Error: ${message}` }],
+					isError: true,
+				};
+			}
+		},
+	);
+
+	return registry;
+}
+
+/**
+ * Register the domain-specific tools for a single expertise file.
+ */
+function registerDomainTools(
+	server: McpServer,
+	store: ExpertiseStore,
+	filename: string,
+	content: ExpertiseContent,
+	prefix: string,
+) {
+	// ================================================================
+	// Tool 1: Load Expertise Context
+	// ================================================================
+	const loadToolName = `load_${prefix}_context`;
+	const loadTool = server.registerTool(
+		loadToolName,
+		{
+			description: `Load ${content.meta.domain} context for local analysis. Returns guidelines for checkpoints, quality checks, and principles. Your AI uses this context to analyze your content locally—your content is never sent to this server. Use detail_level to control response size.`,
+			inputSchema: {
+				detail_level: z
+					.enum(["minimal", "standard", "comprehensive"])
+					.optional()
+					.describe(
+						"Level of detail. 'minimal': core checkpoints only. 'standard': checkpoints + quality checks (default). 'comprehensive': everything including examples.",
+					),
+				topics: z
+					.array(
+						z.enum([
+							"completeness",
+							"categories",
+							"principles",
+							"quality",
+							"requirements",
+							"all",
+						]),
+					)
+					.optional()
+					.describe(
+						"Specific topics to load. Overrides detail_level for fine-grained control.",
+					),
+				category: z
+					.string()
+					.max(100)
+					.optional()
+					.describe(
+						"Category ID to load guidance for. Returns only the checkpoints and quality checks that apply to it, plus its considerations (saves tokens).",
+					),
+				include_examples: z
+					.boolean()
+					.optional()
+					.describe(
+						"Include good/poor examples. Default: false. Set to true for learning.",
+					),
+				max_tokens: z
+					.number()
+					.int()
+					.min(MIN_TOKEN_BUDGET)
+					.max(MAX_TOKEN_BUDGET)
+					.optional()
+					.describe(
+						"Approximate token budget for the response. Lowest-priority content is left out first and listed under budget.omitted with handles to fetch it. Omit for no limit.",
+					),
+				page_size: z
+					.number()
+					.int()
+					.min(1)
+					.max(MAX_PAGE_SIZE)
+					.optional()
+					.describe(
+						`Split the response into pages of this many items (checkpoints, quality checks, etc.). Default when a cursor is given: ${DEFAULT_PAGE_SIZE}. Omit for everything at once.`,
+					),
+				cursor: z
+					.string()
+					.max(2000)
+					.optional()
+					.describe(
+						"page.nextCursor from the previous page. Repeat the same other arguments with it.",
+					),
+				locale: localeParam(content),
+			},
+			outputSchema: ExpertiseContextSchema,
+		},
+		async ({
+			detail_level,
+			topics,
+			category,
+			include_examples,
+			max_tokens,
+			page_size,
+			cursor,
+			locale,
+		}) => {
+			try {
+				const currentContent = await loadExpertiseFile(store, filename, locale);
+				if (!currentContent) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "Expertise content not available.",
+							},
+						],
+						isError: true,
+					};
+				}
+
+				const categoryError = unknownCategoryMessage(currentContent, category);
+				if (categoryError) {
+					return {
+						content: [{ type: "text", text: categoryError }],
+						isError: true,
+					};
+				}
+
+				// Determine effective topics based on detail_level
+				let effectiveTopics = topics;
+				if (!topics || topics.length === 0) {
+					switch (detail_level) {
+						case "minimal":
+							effectiveTopics = ["completeness"];
+							break;
+						case "comprehensive":
+							effectiveTopics = ["all"];
+							break;
+						default:
+							effectiveTopics = ["completeness", "quality", "principles"];
+					}
+				}
+
+				const context = buildExpertiseContext(currentContent, {
+					topics: effectiveTopics,
+					includeExamples: include_examples ?? detail_level === "comprehensive",
+					detailLevel: detail_level ?? "standard",
+					category,
+					maxTokens: max_tokens,
+					locale,
+					page: createPageRequest(
+						loadToolName,
+						{
+							detail_level,
+							topics,
+							category,
+							include_examples,
+							max_tokens,
+							page_size,
+							locale,
+						},
+						cursor,
+					),
+				});
+
+				return jsonToolResult(context);
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				return {
+					content: [{ type: "text", text: `Error: ${message}` }],
+					isError: true,
+				};
+			}
+		},
+	);
+
+	// ================================================================
+	// Tool 2: Review Content
+	// ================================================================
+	const reviewToolName = `review_${prefix}_content`;
+	const reviewTool = server.registerTool(
+		reviewToolName,
+		{
+			description: `Get criteria for reviewing existing ${content.meta.domain.toLowerCase()} content. Returns checkpoints to verify, quality checks to apply, and guidance for constructive feedback. Your AI uses this to analyze your content locally—your content is never sent to this server.`,
+			inputSchema: {
+				category: z
+					.string()
+					.max(100)
+					.optional()
+					.describe(
+						"Category ID of the content being reviewed. Returns only the checkpoints and quality checks that apply to it, plus its considerations.",
+					),
+				checkpoints: z
+					.array(z.string().max(100))
+					.max(50)
+					.optional()
+					.describe(
+						"Specific checkpoint IDs to get criteria for. Omit for all.",
+					),
+				focus: z
+					.array(z.string().max(100))
+					.max(50)
+					.optional()
+					.describe(
+						"Quality check categories to focus on. Omit for all defined checks.",
+					),
+				max_tokens: z
+					.number()
+					.int()
+					.min(MIN_TOKEN_BUDGET)
+					.max(MAX_TOKEN_BUDGET)
+					.optional()
+					.describe(
+						"Approximate token budget for the response. Lowest-priority content is left out first and listed under budget.omitted with handles to fetch it. Omit for no limit.",
+					),
+				page_size: z
+					.number()
+					.int()
+					.min(1)
+					.max(MAX_PAGE_SIZE)
+					.optional()
+					.describe(
+						`Split the response into pages of this many items (checkpoints, quality checks, etc.). Default when a cursor is given: ${DEFAULT_PAGE_SIZE}. Omit for everything at once.`,
+					),
+				cursor: z
+					.string()
+					.max(2000)
+					.optional()
+					.describe(
+						"page.nextCursor from the previous page. Repeat the same other arguments with it.",
+					),
+				locale: localeParam(content),
+			},
+			outputSchema: ReviewContextSchema,
+		},
+		async ({
+			category,
+			checkpoints,
+			focus,
+			max_tokens,
+			page_size,
+			cursor,
+			locale,
+		}) => {
+			try {
+				const currentContent = await loadExpertiseFile(store, filename, locale);
+				if (!currentContent) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "Expertise content not available.",
+							},
+						],
+						isError: true,
+					};
+				}
+
+				const categoryError = unknownCategoryMessage(currentContent, category);
+				if (categoryError) {
+					return {
+						content: [{ type: "text", text: categoryError }],
+						isError: true,
+					};
+				}
+
+				const context = buildReviewContext(currentContent, {
+					category,
+					checkpointIds: checkpoints,
+					focus,
+					maxTokens: max_tokens,
+					page: createPageRequest(
+						reviewToolName,
+						{ category, checkpoints, focus, max_tokens, page_size, locale },
+						cursor,
+					),
+					locale,
+				});
+
+				return jsonToolResult(context);
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				return {
+					content: [{ type: "text", text: `Error: ${message}` }],
+					isError: true,
+				};
+			}
+		},
+	);
+
+	// ================================================================
+	// Tool 3: Get Guidelines
+	// ================================================================
+	const guidelinesToolName = `get_${prefix}_guidelines`;
+	const guidelinesTool = server.tool(
+		guidelinesToolName,
+		`Get ${content.meta.domain.toLowerCase()} guidelines formatted as readable markdown. Topics: summary, principles, checkpoints, quality, review. Omit topic for full guidelines.`,
+		{
+			topic: z
+				.string()
+				.max(50)
+				.optional()
+				.describe(
+					"Specific topic: 'summary', 'principles', 'checkpoints', 'quality', 'review'. Omit for full guidelines.",
+				),
+			locale: localeParam(content),
+		},
+		async ({ topic, locale }) => {
+			try {
+				const currentContent = await loadExpertiseFile(store, filename, locale);
+				if (!currentContent) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "Expertise content not available.",
+							},
+						],
+						isError: true,
+					};
+				}
+
+				const formatted = formatGuidelines(currentContent, topic || "all");
+				return {
+					content: [{ type: "text", text: formatted }],
+				};
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				return {
+					content: [{ type: "text", text: `Error: ${message}` }],
+					isError: true,
+				};
+			}
+		},
+	);
+
+	// ================================================================
+	// Tool 4: Get Rubric
+	// ================================================================
+	const rubricToolName = `get_${prefix}_rubric`;
+	const rubricTool = server.registerTool(
+		rubricToolName,
+		{
+			description: `Get the scoring rubric for ${content.meta.domain.toLowerCase()} content: the scale, weighted criteria, level descriptors, pass threshold and the exact formula for the overall score. Use it so scores are comparable across reviews. Your AI scores your content locally—your content is never sent to this server.`,
+			inputSchema: {
+				category: z
+					.string()
+					.max(100)
+					.optional()
+					.describe(
+						"Category ID of the content being scored. Drops criteria that don't apply to it and renormalizes the weights.",
+					),
+				locale: localeParam(content),
+			},
+			outputSchema: RubricContextSchema,
+		},
+		async ({ category, locale }) => {
+			try {
+				const currentContent = await loadExpertiseFile(store, filename, locale);
+				if (!currentContent) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "Expertise content not available.",
+							},
+						],
+						isError: true,
+					};
+				}
+
+				const categoryError = unknownCategoryMessage(currentContent, category);
+				if (categoryError) {
+					return {
+						content: [{ type: "text", text: categoryError }],
+						isError: true,
+					};
+				}
+
+				const rubric = buildRubricContext(currentContent, { category });
+				if (!rubric) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${currentContent.meta.domain} does not define a scoring rubric. Use \`${reviewToolName}\` for qualitative review criteria.`,
+							},
+						],
+						isError: true,
+					};
+				}
+
+				return jsonToolResult(rubric);
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				return {
+					content: [{ type: "text", text: `Error: ${message}` }],
+					isError: true,
+				};
+			}
+		},
+	);
+
+	// ================================================================
+	// Tool 5: Search Expertise
+	// ================================================================
+	const searchToolName = `search_${prefix}_expertise`;
+	const searchTool = server.registerTool(
+		searchToolName,
+		{
+			description: `Search ${content.meta.domain.toLowerCase()} expertise for a topic (e.g. "secrets in configuration"). Ranks individual principle guidelines, checkpoint indicators and problems, quality checks, categories and requirements, and returns the best matches with their section path and ID. Use it to pull only the relevant slices instead of loading the full context.`,
+			inputSchema: {
+				query: z
+					.string()
+					.min(1)
+					.max(500)
+					.describe("What to look for, in plain words."),
+				sections: z
+					.array(z.enum(SEARCH_SECTIONS))
+					.optional()
+					.describe("Only search these sections. Omit for all."),
+				limit: z
+					.number()
+					.int()
+					.min(1)
+					.max(50)
+					.optional()
+					.describe("Maximum number of matches to return. Default: 10."),
+				locale: localeParam(content),
+			},
+			outputSchema: SearchResultsSchema,
+		},
+		async ({ query, sections, limit, locale }) => {
+			try {
+				const currentContent = await loadExpertiseFile(store, filename, locale);
+				if (!currentContent) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "Expertise content not available.",
+							},
+						],
+						isError: true,
+					};
+				}
+
+				const { total, hits } = searchExpertise(currentContent, query, {
+					sections,
+					limit,
+				});
+				return jsonToolResult({
+					query,
+					total,
+					hits: hits.map(({ resourcePath, ...hit }) => ({
+						...hit,
+						uri: resourcePath ? resourceUri(prefix, resourcePath) : undefined,
+					})),
+				});
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				return {
+					content: [{ type: "text", text: `Error: ${message}` }],
+					isError: true,
+				};
+			}
+		},
+	);
+
+	// ================================================================
+	// Tool 6: Export Rules
+	// ================================================================
+	const exportToolName = `export_${prefix}_rules`;
+	const exportTool = server.registerTool(
+		exportToolName,
+		{
+			description: `Export ${content.meta.domain.toLowerCase()} expertise for assistants that don't support MCP: CLAUDE.md guidance, a Cursor rules file, an agent skill bundle, or plain system-prompt text. Returns the files to save and where to save them.`,
+			inputSchema: {
+				format: z
+					.enum(EXPORT_FORMATS)
+					.describe(
+						"'claude-md' (CLAUDE.md), 'cursor-rules' (.cursor/rules/*.mdc), 'skill' (SKILL.md plus one reference file per topic), or 'system-prompt' (plain text).",
+					),
+				locale: localeParam(content),
+			},
+			outputSchema: RulesExportSchema,
+		},
+		async ({ format, locale }) => {
+			try {
+				const currentContent = await loadExpertiseFile(store, filename, locale);
+				if (!currentContent) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "Expertise content not available.",
+							},
+						],
+						isError: true,
+					};
+				}
+
+				return jsonToolResult(exportRules(currentContent, format));
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				return {
+					content: [{ type: "text", text: `Error: ${message}` }],
+					isError: true,
+				};
+			}
+		},
+	);
+
+	return [
+		loadTool,
+		reviewTool,
+		guidelinesTool,
+		rubricTool,
+		searchTool,
+		exportTool,
+	];
+}
+
+/**
+ * Describe why a requested category can't be used, or return undefined if it
+ * is valid (or none was requested).
+ */
+function unknownCategoryMessage(
+	content: ExpertiseContent,
+	category: string | undefined,
+): string | undefined {
+	if (!category) return undefined;
+	const ids = (content.categories ?? []).map((c) => c.id);
+	if (ids.includes(category)) return undefined;
+	return ids.length > 0
+		? `Unknown category "${category}". Valid categories: ${ids.join(", ")}.`
+		: `Unknown category "${category}". ${content.meta.domain} defines no categories.`;
+}
+
+/**
+ * Register ready-made review and improvement prompts for a single expertise file.
+ * These appear in client slash menus (e.g. "Review my README").
+ */
+function registerDomainPrompts(
+	server: McpServer,
+	store: ExpertiseStore,
+	filename: string,
+	content: ExpertiseContent,
+	prefix: string,
+) {
+	const domain = content.meta.domain;
+	const promptArgs = {
+		category: z
+			.string()
+			.max(100)
+			.optional()
+			.describe("Category ID to apply category-specific considerations."),
+		checkpoints: z
+			.string()
+			.max(1000)
+			.optional()
+			.describe("Comma-separated checkpoint IDs to focus on. Omit for all."),
+		focus: z
+			.string()
+			.max(1000)
+			.optional()
+			.describe(
+				"Comma-separated quality check categories to focus on. Omit for all.",
+			),
+	};
+
+	return (["review", "improve"] as const).map((mode) =>
+		server.prompt(
+			`${mode}_${prefix}`,
+			mode === "review"
+				? `Review content against ${domain} criteria and give structured, constructive feedback.`
+				: `Improve content using ${domain} principles, checkpoints, and quality checks.`,
+			promptArgs,
+			async ({ category, checkpoints, focus }) => {
+				const currentContent = await loadExpertiseFile(store, filename);
+				if (!currentContent) {
+					throw new McpError(
+						ErrorCode.InternalError,
+						"Expertise content not available.",
+					);
+				}
+
+				const categoryError = unknownCategoryMessage(currentContent, category);
+				if (categoryError) {
+					throw new McpError(ErrorCode.InvalidParams, categoryError);
+				}
+
+				return {
+					description: `${mode === "review" ? "Review" : "Improve"}: ${domain}`,
+					messages: [
+						{
+							role: "user" as const,
+							content: {
+								type: "text" as const,
+								text: buildPromptText(currentContent, mode, {
+									category,
+									checkpointIds: splitPromptList(checkpoints),
+									focus: splitPromptList(focus),
+								}),
+							},
+						},
+					],
+				};
+			},
+		),
+	);
+}
+
+/**
+ * Register browsable resources for a single expertise file.
+ * URIs are stable so clients can pin individual pieces (e.g. one checkpoint)
+ * instead of loading the whole context.
+ */
+function registerDomainResources(
+	server: McpServer,
+	store: ExpertiseStore,
+	filename: string,
+	content: ExpertiseContent,
+	prefix: string,
+) {
+	const domain = content.meta.domain;
+
+	// Always read from the cached file so resources track the same content as tools
+	const loadCurrent = async (uri: URL): Promise<ExpertiseContent> => {
+		const currentContent = await loadExpertiseFile(store, filename);
+		if (!currentContent) {
+			throw new McpError(
+				ErrorCode.InternalError,
+				`Expertise content not available: ${uri.href}`,
+			);
+		}
+		return currentContent;
+	};
+
+	// ================================================================
+	// Resource: Principles
+	// ================================================================
+	const principlesResource = server.resource(
+		`${prefix}_principles`,
+		resourceUri(prefix, "principles"),
+		{
+			description: `Core principles for ${domain}`,
+			mimeType: "application/json",
+		},
+		async (uri) => {
+			const currentContent = await loadCurrent(uri);
+			return jsonResource(uri, currentContent.principles);
+		},
+	);
+
+	// ================================================================
+	// Resource: Review Guidance
+	// ================================================================
+	const reviewGuidanceResource = server.resource(
+		`${prefix}_review_guidance`,
+		resourceUri(prefix, "review"),
+		{
+			description: `How to structure and deliver ${domain.toLowerCase()} feedback`,
+			mimeType: "application/json",
+		},
+		async (uri) => {
+			const currentContent = await loadCurrent(uri);
+			return jsonResource(uri, currentContent.reviewGuidance);
+		},
+	);
+
+	// ================================================================
+	// Resource Template: Checkpoints
+	// ================================================================
+	const checkpointTemplate = server.resource(
+		`${prefix}_checkpoint`,
+		new ResourceTemplate(resourceUri(prefix, "checkpoints/{id}"), {
+			list: async () => {
+				const currentContent = await loadExpertiseFile(store, filename);
+				return {
+					resources: (currentContent?.checkpoints ?? []).map((cp) => ({
+						uri: resourceUri(
+							prefix,
+							`checkpoints/${encodeURIComponent(cp.id)}`,
+						),
+						name: `${domain}: ${cp.name}`,
+						description: cp.purpose,
+						mimeType: "application/json",
+					})),
+				};
+			},
+			complete: {
+				id: async (value) => {
+					const currentContent = await loadExpertiseFile(store, filename);
+					return (currentContent?.checkpoints ?? [])
+						.map((cp) => cp.id)
+						.filter((id) => id.startsWith(value));
+				},
+			},
+		}),
+		{
+			description: `A single ${domain} checkpoint, addressed by its ID`,
+			mimeType: "application/json",
+		},
+		async (uri, variables) => {
+			const currentContent = await loadCurrent(uri);
+			const id = templateVariable(variables.id);
+			const checkpoint = currentContent.checkpoints.find((c) => c.id === id);
+			if (!checkpoint) {
+				throw new McpError(
+					ErrorCode.InvalidParams,
+					`Unknown checkpoint "${id}" in ${domain}`,
+				);
+			}
+			return jsonResource(uri, checkpoint);
+		},
+	);
+
+	// ================================================================
+	// Resource Template: Quality Checks
+	// ================================================================
+	const qualityTemplate = server.resource(
+		`${prefix}_quality_check`,
+		new ResourceTemplate(resourceUri(prefix, "quality/{key}"), {
+			list: async () => {
+				const currentContent = await loadExpertiseFile(store, filename);
+				return {
+					resources: Object.entries(currentContent?.qualityChecks ?? {}).map(
+						([key, check]) => ({
+							uri: resourceUri(prefix, `quality/${encodeURIComponent(key)}`),
+							name: `${domain}: ${key}`,
+							description: check.whatToCheck,
+							mimeType: "application/json",
+						}),
+					),
+				};
+			},
+			complete: {
+				key: async (value) => {
+					const currentContent = await loadExpertiseFile(store, filename);
+					return Object.keys(currentContent?.qualityChecks ?? {}).filter(
+						(key) => key.startsWith(value),
+					);
+				},
+			},
+		}),
+		{
+			description: `A single ${domain} quality check, addressed by its key`,
+			mimeType: "application/json",
+		},
+		async (uri, variables) => {
+			const currentContent = await loadCurrent(uri);
+			const key = templateVariable(variables.key);
+			const check = currentContent.qualityChecks?.[key];
+			if (!check) {
+				throw new McpError(
+					ErrorCode.InvalidParams,
+					`Unknown quality check "${key}" in ${domain}`,
+				);
+			}
+			return jsonResource(uri, check);
+		},
+	);
+
+	// ================================================================
+	// Resource Template: Categories
+	// ================================================================
+	const categoryTemplate = server.resource(
+		`${prefix}_category`,
+		new ResourceTemplate(resourceUri(prefix, "categories/{id}"), {
+			list: async () => {
+				const currentContent = await loadExpertiseFile(store, filename);
+				return {
+					resources: (currentContent?.categories ?? []).map((cat) => ({
+						uri: resourceUri(
+							prefix,
+							`categories/${encodeURIComponent(cat.id)}`,
+						),
+						name: `${domain}: ${cat.name}`,
+						description: cat.description,
+						mimeType: "application/json",
+					})),
+				};
+			},
+			complete: {
+				id: async (value) => {
+					const currentContent = await loadExpertiseFile(store, filename);
+					return (currentContent?.categories ?? [])
+						.map((cat) => cat.id)
+						.filter((id) => id.startsWith(value));
+				},
+			},
+		}),
+		{
+			description: `A single ${domain} content category, addressed by its ID`,
+			mimeType: "application/json",
+		},
+		async (uri, variables) => {
+			const currentContent = await loadCurrent(uri);
+			const id = templateVariable(variables.id);
+			const category = currentContent.categories?.find((c) => c.id === id);
+			if (!category) {
+				throw new McpError(
+					ErrorCode.InvalidParams,
+					`Unknown category "${id}" in ${domain}`,
+				);
+			}
+			return jsonResource(uri, category);
+		},
+	);
+
+	return [
+		principlesResource,
+		reviewGuidanceResource,
+		checkpointTemplate,
+		qualityTemplate,
+		categoryTemplate,
+	];
+}
+
+// ============================================================================
+// Tool Helpers
+// ============================================================================
+
+/**
+ * Return data as structured content, with the same JSON as a text block for
+ * clients that don't read structuredContent.
+ */
+function jsonToolResult(data: object) {
+	return {
+		content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+		structuredContent: { ...data },
+	};
+}
+
+/**
+ * The locale parameter shared by a domain's tools.
+ */
+function localeParam(content: ExpertiseContent) {
+	const locales = getLocales(content.meta);
+	return z
+		.string()
+		.max(35)
+		.optional()
+		.describe(
+			`Language for the response (BCP 47 tag, e.g. 'de'). Available: ${locales.join(", ")}. Falls back to '${locales[0]}' when a language isn't available.`,
+		);
+}
+
+// ============================================================================
+// Resource Helpers
+// ============================================================================
+
+/**
+ * Extract a single decoded value from a matched URI template variable.
+ * Throws InvalidParams if the value isn't valid percent-encoding.
+ */
+function templateVariable(value: string | string[] | undefined): string {
+	const raw = Array.isArray(value) ? value[0] : value;
+	if (!raw) {
+		return "";
+	}
+	try {
+		return decodeURIComponent(raw);
+	} catch {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			`Malformed percent-encoding in resource URI: "${raw}"`,
+		);
+	}
+}
+
+/**
+ * Wrap data as a JSON resource read result.
+ */
+function jsonResource(uri: URL, data: unknown) {
+	return {
+		contents: [
+			{
+				uri: uri.href,
+				mimeType: "application/json",
+				text: JSON.stringify(data, null, 2),
+			},
+		],
+	};
+}
@@ -0,0 +1,382 @@
+// ============================================================================
+// Expertise Storage
+// Where expertise YAML files are read from. The server only needs to list
+// files and read their text, so any backend that can do both will work.
+// ============================================================================
+
+/**
+ * Identifies one revision of a file, so caches can detect changes cheaply.
+ */
+export interface ExpertiseFileVersion {
+	/** Opaque tag that changes whenever the file changes (absent if unknown) */
+	etag?: string;
+	/** When the file was last written, if known */
+	uploaded?: Date;
+}
+
+/**
+ * A file read from the store.
+ */
+export interface ExpertiseFile extends ExpertiseFileVersion {
+	/** File contents */
+	text: string;
+}
+
+/**
+ * A source of expertise YAML files.
+ */
+export interface ExpertiseStore {
+	/** Human-readable location, used in logs and status messages */
+	readonly description: string;
+	/** List the keys (filenames) of all files in the store */
+	list(): Promise<string[]>;
+	/** Read a file, or null if it does not exist */
+	get(key: string): Promise<ExpertiseFile | null>;
+	/** Read only a file's version (no body), or null if it does not exist */
+	head(key: string): Promise<ExpertiseFileVersion | null>;
+}
+
+/**
+ * Configuration for selecting a storage backend.
+ */
+export type ExpertiseStoreConfig =
+	| { type: "r2"; bucket: R2Bucket }
+	| { type: "filesystem"; directory: string }
+	| { type: "memory"; files: Record<string, string> }
+	| { type: "http"; baseUrl: string; files?: string[] };
+
+/**
+ * Reads expertise files from a Cloudflare R2 bucket (the default for Workers).
+ */
+export class R2ExpertiseStore implements ExpertiseStore {
+	readonly description = "the R2 bucket";
+
+	constructor(private readonly bucket: R2Bucket) {}
+
+	async list(): Promise<string[]> {
+		// R2 returns at most 1,000 keys per call; follow the cursor for the rest
+		const keys: string[] = [];
+		let cursor: string | undefined;
+		do {
+			const list = await this.bucket.list({ cursor });
+			keys.push(...list.objects.map((obj) => obj.key));
+			cursor = list.truncated ? list.cursor : undefined;
+		} while (cursor);
+		return keys;
+	}
+
+	async get(key: string): Promise<ExpertiseFile | null> {
+		const object = await this.bucket.get(key);
+		if (!object) {
+			return null;
+		}
+		return {
+			text: await object.text(),
+			etag: object.etag,
+			uploaded: object.uploaded,
+		};
+	}
+
+	async head(key: string): Promise<ExpertiseFileVersion | null> {
+		const object = await this.bucket.head(key);
+		return object ? { etag: object.etag, uploaded: object.uploaded } : null;
+	}
+}
+
+/**
+ * Reads expertise files from a local directory (e.g. content/ during authoring).
+ * Files starting with an underscore (like _starter-template.yaml) are skipped.
+ * Node modules are imported lazily so this file stays safe to bundle for Workers.
+ */
+export class FileSystemExpertiseStore implements ExpertiseStore {
+	readonly description: string;
+
+	constructor(private readonly directory: string) {
+		this.description = `the ${directory} directory`;
+	}
+
+	async list(): Promise<string[]> {
+		const { readdir } = await import("node:fs/promises");
+		const entries = await readdir(this.directory, { withFileTypes: true });
+		return entries
+			.filter((e) => e.isFile() && !e.name.startsWith("_"))
+			.map((e) => e.name);
+	}
+
+	async get(key: string): Promise<ExpertiseFile | null> {
+		const path = await this.resolve(key);
+		if (!path) {
+			return null;
+		}
+
+		const { readFile } = await import("node:fs/promises");
+		const version = await this.head(key);
+		if (!version) {
+			return null;
+		}
+		try {
+			return { text: await readFile(path, "utf-8"), ...version };
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	async head(key: string): Promise<ExpertiseFileVersion | null> {
+		const path = await this.resolve(key);
+		if (!path) {
+			return null;
+		}
+
+		const { stat } = await import("node:fs/promises");
+		try {
+			const stats = await stat(path);
+			return {
+				etag: `${stats.mtimeMs}-${stats.size}`,
+				uploaded: stats.mtime,
+			};
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Map a key to a path inside the directory.
+	 * Keys are plain filenames; anything that could escape the directory is refused.
+	 */
+	private async resolve(key: string): Promise<string | null> {
+		const { basename, join } = await import("node:path");
+		return basename(key) === key ? join(this.directory, key) : null;
+	}
+}
+
+/**
+ * Holds expertise files in memory. Useful for tests and fixtures.
+ */
+export class MemoryExpertiseStore implements ExpertiseStore {
+	readonly description = "the in-memory store";
+	private readonly files = new Map<string, Required<ExpertiseFile>>();
+	private revision = 0;
+
+	constructor(files: Record<string, string> = {}) {
+		for (const [key, text] of Object.entries(files)) {
+			this.set(key, text);
+		}
+	}
+
+	async list(): Promise<string[]> {
+		return [...this.files.keys()];
+	}
+
+	async get(key: string): Promise<ExpertiseFile | null> {
+		return this.files.get(key) ?? null;
+	}
+
+	async head(key: string): Promise<ExpertiseFileVersion | null> {
+		const file = this.files.get(key);
+		return file ? { etag: file.etag, uploaded: file.uploaded } : null;
+	}
+
+	/** Add or replace a file */
+	set(key: string, text: string): void {
+		this.revision++;
+		this.files.set(key, {
+			text,
+			etag: String(this.revision),
+			uploaded: new Date(),
+		});
+	}
+
+	/** Remove a file */
+	delete(key: string): void {
+		this.files.delete(key);
+	}
+}
+
+/**
+ * Reads expertise files over HTTP(S) from a base URL.
+ * If no file list is configured, the store fetches `index.json` from the base
+ * URL, which must be a JSON array of filenames.
+ */
+export class HttpExpertiseStore implements ExpertiseStore {
+	readonly description: string;
+	private readonly baseUrl: string;
+
+	constructor(
+		baseUrl: string,
+		private readonly files?: string[],
+	) {
+		this.baseUrl = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+		this.description = this.baseUrl;
+	}
+
+	async list(): Promise<string[]> {
+		if (this.files) {
+			return this.files;
+		}
+
+		const response = await fetch(new URL("index.json", this.baseUrl));
+		if (!response.ok) {
+			throw new Error(
+				`Failed to fetch index.json from ${this.baseUrl}: HTTP ${response.status}`,
+			);
+		}
+
+		const index: unknown = await response.json();
+		if (!Array.isArray(index) || !index.every((k) => typeof k === "string")) {
+			throw new Error(
+				`index.json at ${this.baseUrl} must be a JSON array of filenames`,
+			);
+		}
+		return index;
+	}
+
+	async get(key: string): Promise<ExpertiseFile | null> {
+		const response = await fetch(this.fileUrl(key));
+		if (response.status === 404) {
+			return null;
+		}
+		if (!response.ok) {
+			throw new Error(`Failed to fetch ${key}: HTTP ${response.status}`);
+		}
+		return { text: await response.text(), ...versionFromHeaders(response) };
+	}
+
+	async head(key: string): Promise<ExpertiseFileVersion | null> {
+		const response = await fetch(this.fileUrl(key), { method: "HEAD" });
+		if (response.status === 404) {
+			return null;
+		}
+		if (!response.ok) {
+			throw new Error(`Failed to check ${key}: HTTP ${response.status}`);
+		}
+		return versionFromHeaders(response);
+	}
+
+	private fileUrl(key: string): URL {
+		return new URL(encodeURIComponent(key), this.baseUrl);
+	}
+}
+
+/**
+ * Derive a file version from HTTP caching headers.
+ * Falls back to Last-Modified when the server sends no ETag.
+ */
+function versionFromHeaders(response: Response): ExpertiseFileVersion {
+	const etag = response.headers.get("etag");
+	const lastModified = response.headers.get("last-modified");
+	return {
+		etag: etag ?? lastModified ?? undefined,
+		uploaded: lastModified ? new Date(lastModified) : undefined,
+	};
+}
+
+// ============================================================================
+// Shared Cache Invalidation
+// Each isolate caches parsed files on its own. An invalidation marker lets an
+// invalidation made in one isolate reach the caches of all the others.
+// ============================================================================
+
+/**
+ * Invalidations recorded so far. Each value is a stamp that changes whenever
+ * the file (or, for `all`, the whole store) is invalidated again.
+ */
+export interface CacheInvalidationState {
+	/** Stamp of the last invalidation of every file */
+	all?: string;
+	/** Stamps of single-file invalidations since then, keyed by filename */
+	files: Record<string, string>;
+}
+
+/**
+ * The invalidation state and the tag of the revision it was read from.
+ */
+export interface CacheInvalidationSnapshot {
+	state: CacheInvalidationState;
+	/** Revision tag (undefined if nothing was ever invalidated) */
+	etag?: string;
+}
+
+/**
+ * Shared storage for the invalidation state.
+ */
+export interface CacheInvalidationMarker {
+	/** The current revision tag only (no body), so unchanged state is cheap to detect */
+	head(): Promise<string | undefined>;
+	/** Read the current state (empty if nothing was ever invalidated) */
+	read(): Promise<CacheInvalidationSnapshot>;
+	/**
+	 * Replace the state, but only if it is still at `etag` (undefined: only if
+	 * nothing was written yet). Returns the new revision tag, or undefined if
+	 * another write got there first.
+	 */
+	write(
+		state: CacheInvalidationState,
+		etag: string | undefined,
+	): Promise<string | undefined>;
+}
+
+/**
+ * Keeps the invalidation state as a small JSON object in an R2 bucket. The
+ * key doesn't end in .yaml, so it is never loaded as expertise. Writes are
+ * conditional on the object's etag, so concurrent invalidations don't
+ * overwrite each other.
+ */
+export class R2CacheInvalidationMarker implements CacheInvalidationMarker {
+	constructor(
+		private readonly bucket: R2Bucket,
+		private readonly key = ".cache-invalidation.json",
+	) {}
+
+	async head(): Promise<string | undefined> {
+		return (await this.bucket.head(this.key))?.etag;
+	}
+
+	async read(): Promise<CacheInvalidationSnapshot> {
+		const object = await this.bucket.get(this.key);
+		if (!object) {
+			return { state: { files: {} } };
+		}
+		const state = (await object.json()) as Partial<CacheInvalidationState>;
+		return {
+			state: { all: state.all, files: state.files ?? {} },
+			etag: object.etag,
+		};
+	}
+
+	async write(
+		state: CacheInvalidationState,
+		etag: string | undefined,
+	): Promise<string | undefined> {
+		const object = await this.bucket.put(this.key, JSON.stringify(state), {
+			httpMetadata: { contentType: "application/json" },
+			onlyIf: etag
+				? { etagMatches: etag }
+				: new Headers({ "If-None-Match": "*" }),
+		});
+		return object?.etag;
+	}
+}
+
+/**
+ * Create a store from configuration.
+ */
+export function createExpertiseStore(
+	config: ExpertiseStoreConfig,
+): ExpertiseStore {
+	switch (config.type) {
+		case "r2":
+			return new R2ExpertiseStore(config.bucket);
+		case "filesystem":
+			return new FileSystemExpertiseStore(config.directory);
+		case "memory":
+			return new MemoryExpertiseStore(config.files);
+		case "http":
+			return new HttpExpertiseStore(config.baseUrl, config.files);
+	}
+}
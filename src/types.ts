@@ -23,6 +23,10 @@ export interface ExpertiseMeta {
 	toolPrefix: string;
 	/** Privacy statement shown to users */
 	privacyStatement?: string;
+	/** Language the file is written in (BCP 47 tag, default "en") */
+	locale?: string;
+	/** Other languages with translation files (e.g. ["de", "ja"]) */
+	locales?: string[];
 }
 
 /**
@@ -38,8 +42,11 @@ export interface Principle {
 	guidelines: string[];
 	/** Examples showing bad vs good (optional) */
 	examples?: Array<{
+		/** What to avoid */
 		bad: string;
+		/** A better version of the same thing */
 		good: string;
+		/** Why the good version is better (optional) */
 		explanation?: string;
 	}>;
 }
@@ -67,6 +74,8 @@ export interface Checkpoint {
 	exampleGood?: string;
 	/** Example of poor/incomplete coverage (optional) */
 	examplePoor?: string;
+	/** Category IDs this checkpoint applies to (omit to apply to all categories) */
+	categories?: string[];
 }
 
 /**
@@ -98,10 +107,15 @@ export interface QualityCheckCategory {
 	whyItMatters: string;
 	/** Examples showing transformations */
 	examples: Array<{
+		/** What to avoid */
 		bad: string;
+		/** A better version of the same thing */
 		good: string;
+		/** Why the good version is better (optional) */
 		explanation?: string;
 	}>;
+	/** Category IDs this check applies to (omit to apply to all categories) */
+	categories?: string[];
 }
 
 /**
@@ -142,13 +156,72 @@ export interface Requirement {
 	caveats?: string[];
 }
 
+/**
+ * A level on a rubric scale, describing what earns that score.
+ */
+export interface RubricLevel {
+	/** Score for this level (must lie on the scale) */
+	score: number;
+	/** Short label (e.g., "Excellent", "Poor") */
+	label: string;
+	/** What content at this level looks like */
+	description: string;
+}
+
+/**
+ * The numeric scale every rubric criterion is scored on.
+ */
+export interface RubricScale {
+	/** Lowest possible score */
+	min: number;
+	/** Highest possible score */
+	max: number;
+	/** Increment between allowed scores (default 1) */
+	step?: number;
+	/** Descriptors for levels on the scale */
+	levels?: RubricLevel[];
+}
+
+/**
+ * One scored item in a rubric. Scores a checkpoint or a quality check.
+ */
+export interface RubricCriterion {
+	/** Checkpoint ID to score (set this or qualityCheck) */
+	checkpoint?: string;
+	/** Quality check key to score (set this or checkpoint) */
+	qualityCheck?: string;
+	/** Relative weight in the overall score (default 1) */
+	weight?: number;
+	/** Lowest acceptable score; anything below fails the review regardless of the total */
+	minimum?: number;
+	/** Level descriptors specific to this criterion (override the scale's) */
+	levels?: RubricLevel[];
+}
+
+/**
+ * Scoring rubric, so reviews produce comparable numeric scores.
+ * Optional - only include if your domain scores content.
+ */
+export interface Rubric {
+	/** What the score represents */
+	description?: string;
+	/** Scale used for every criterion */
+	scale: RubricScale;
+	/** Items to score and their weights */
+	criteria: RubricCriterion[];
+	/** Overall (weighted) score needed to pass */
+	passThreshold?: number;
+}
+
 /**
  * Complete expertise content structure.
  * This is the shape of your expertise YAML file.
  */
 export interface ExpertiseContent {
-	/** Schema version */
+	/** Schema version the file is written for (older files are migrated on load) */
 	version: string;
+	/** Other files in the store this file builds on (shared fragments or domains) */
+	extends?: string[];
 	/** Domain metadata */
 	meta: ExpertiseMeta;
 	/** Core principles (high-level guidelines) */
@@ -163,6 +236,31 @@ export interface ExpertiseContent {
 	reviewGuidance: ReviewGuidance;
 	/** External requirements (optional) */
 	requirements?: Requirement[];
+	/** Scoring rubric (optional) */
+	rubric?: Rubric;
+}
+
+/**
+ * A translation of an expertise file into one of its meta.locales, stored
+ * next to it as <name>.<locale>.locale.yaml. Items are keyed by the ID (or,
+ * for principles and requirements, the original name) of the item they
+ * translate. Anything left out stays in the file's default language.
+ */
+export interface ExpertiseTranslation {
+	/** Schema version (optional) */
+	version?: string;
+	meta?: Partial<
+		Pick<ExpertiseMeta, "domain" | "description" | "privacyStatement">
+	>;
+	principles?: Record<string, Partial<Principle>>;
+	checkpoints?: Record<string, Partial<Omit<Checkpoint, "id" | "categories">>>;
+	categories?: Record<string, Partial<Omit<Category, "id">>>;
+	qualityChecks?: Record<
+		string,
+		Partial<Omit<QualityCheckCategory, "categories">>
+	>;
+	reviewGuidance?: Partial<ReviewGuidance>;
+	requirements?: Record<string, Partial<Requirement>>;
 }
 
 // ============================================================================
@@ -170,12 +268,68 @@ export interface ExpertiseContent {
 // These define what the MCP tools return to the AI assistant
 // ============================================================================
 
+/**
+ * A way to fetch content that was left out of a response: either a resource
+ * to read or a tool call to make.
+ */
+export interface ContinuationHandle {
+	/** Resource URI to read */
+	uri?: string;
+	/** Tool to call */
+	tool?: string;
+	/** Arguments for the tool call */
+	arguments?: Record<string, unknown>;
+}
+
+/**
+ * Items left out of a response to fit its token budget.
+ */
+export interface OmittedContent {
+	/** Section the items came from (e.g. "checkpoints", "qualityChecks.examples") */
+	section: string;
+	/** IDs of the omitted items */
+	ids: string[];
+	/** How to fetch them */
+	fetch: ContinuationHandle[];
+}
+
+/**
+ * How a response was fitted to a token budget.
+ */
+export interface BudgetReport {
+	/** Budget requested by the client */
+	maxTokens: number;
+	/** Estimated size of this response (about 4 characters per token) */
+	estimatedTokens: number;
+	/** Whether anything was left out */
+	truncated: boolean;
+	/** What was left out, lowest priority first */
+	omitted: OmittedContent[];
+}
+
+/**
+ * Which items of a paged response are on this page.
+ */
+export interface PageInfo {
+	/** Maximum items per page */
+	pageSize: number;
+	/** Items on this page, by section (offset is the index of the first item) */
+	sections: Array<{
+		section: string;
+		offset: number;
+		count: number;
+		total: number;
+	}>;
+	/** Pass as `cursor`, with the same other arguments, to get the next page; absent on the last page */
+	nextCursor?: string;
+}
+
 /**
  * AI-consumable context for creating/improving content.
  * Response format for load_expertise_context tool.
  */
 export interface ExpertiseContext {
-	/** Schema version */
+	/** Schema version of the expertise file it was built from (after migration) */
 	version: string;
 	/** Generated timestamp */
 	generated: string;
@@ -186,6 +340,8 @@ export interface ExpertiseContext {
 		license?: string;
 		privacyStatement: string;
 		infoUrl?: string;
+		/** Language of the response */
+		locale: string;
 	};
 	/** Instructions for how AI should use this context */
 	instructions: string;
@@ -202,6 +358,10 @@ export interface ExpertiseContext {
 	qualityChecks?: QualityChecks;
 	/** Requirements/constraints */
 	requirements?: Requirement[];
+	/** Present when a token budget was requested */
+	budget?: BudgetReport;
+	/** Present when the response is paged */
+	page?: PageInfo;
 }
 
 /**
@@ -209,7 +369,7 @@ export interface ExpertiseContext {
  * Response format for review_content tool.
  */
 export interface ReviewContext {
-	/** Schema version */
+	/** Schema version of the expertise file it was built from (after migration) */
 	version: string;
 	/** Generated timestamp */
 	generated: string;
@@ -219,9 +379,13 @@ export interface ReviewContext {
 		author: string;
 		license?: string;
 		privacyStatement: string;
+		/** Language of the response */
+		locale: string;
 	};
 	/** Instructions for the review */
 	reviewInstructions: string;
+	/** The category being reviewed, with its considerations */
+	category?: Category;
 	/** How to provide feedback */
 	feedbackGuidance: ReviewGuidance;
 	/** Checkpoints to verify */
@@ -230,12 +394,273 @@ export interface ReviewContext {
 	qualityChecks?: QualityChecks;
 	/** Principles to reference */
 	principles?: Principle[];
+	/** Present when a token budget was requested */
+	budget?: BudgetReport;
+	/** Present when the response is paged */
+	page?: PageInfo;
+}
+
+/**
+ * A rubric criterion resolved for scoring.
+ */
+export interface RubricContextCriterion {
+	/** Checkpoint ID or quality check key */
+	id: string;
+	/** Whether the criterion scores a checkpoint or a quality check */
+	kind: "checkpoint" | "qualityCheck";
+	/** Human-readable name */
+	name: string;
+	/** What is being scored */
+	description: string;
+	/** Relative weight as written in the rubric */
+	weight: number;
+	/** Share of the overall score (weights normalized to sum to 1) */
+	normalizedWeight: number;
+	/** Lowest acceptable score, if any */
+	minimum?: number;
+	/** Level descriptors for this criterion */
+	levels?: RubricLevel[];
+}
+
+/**
+ * AI-consumable scoring rubric.
+ * Response format for get_rubric tool.
+ */
+export interface RubricContext {
+	/** Schema version of the expertise file it was built from (after migration) */
+	version: string;
+	/** Generated timestamp */
+	generated: string;
+	/** Metadata */
+	meta: {
+		domain: string;
+		author: string;
+		license?: string;
+		privacyStatement: string;
+		/** Language of the response */
+		locale: string;
+	};
+	/** Instructions for scoring */
+	scoringInstructions: string;
+	/** What the score represents */
+	description?: string;
+	/** Category the criteria were scoped to */
+	category?: string;
+	/** Scale used for every criterion */
+	scale: Required<Pick<RubricScale, "min" | "max" | "step">> &
+		Pick<RubricScale, "levels">;
+	/** Items to score */
+	criteria: RubricContextCriterion[];
+	/** How to combine criterion scores into the overall result */
+	aggregation: {
+		method: "weighted_mean";
+		formula: string;
+		passThreshold?: number;
+		passRule: string;
+	};
+}
+
+/**
+ * Sections of an expertise file that search covers.
+ */
+export const SEARCH_SECTIONS = [
+	"principles",
+	"checkpoints",
+	"qualityChecks",
+	"categories",
+	"requirements",
+] as const;
+
+export type SearchSection = (typeof SEARCH_SECTIONS)[number];
+
+/**
+ * A single search match.
+ */
+export interface SearchHit {
+	/** Section the match was found in */
+	section: SearchSection;
+	/** ID of the owning item (checkpoint ID, quality check key, principle name, ...) */
+	id: string;
+	/** Human-readable name of the owning item */
+	name: string;
+	/** Location of the matched text (e.g. "checkpoints[intro].commonProblems[1]") */
+	path: string;
+	/** The matched text */
+	text: string;
+	/** BM25 relevance score (higher is better) */
+	score: number;
+	/** Resource URI for the owning item, if it has one */
+	uri?: string;
+}
+
+/**
+ * Ranked search results.
+ * Response format for search_expertise tool.
+ */
+export interface SearchResults {
+	/** The query as received */
+	query: string;
+	/** Number of matches before the limit was applied */
+	total: number;
+	/** Best matches first */
+	hits: SearchHit[];
+}
+
+/**
+ * What the user wants to do with their content, used to pick tool calls.
+ */
+export const ROUTING_INTENTS = ["create", "review", "score"] as const;
+
+export type RoutingIntent = (typeof ROUTING_INTENTS)[number];
+
+/**
+ * A tool call suggested by find_expertise.
+ */
+export interface RecommendedToolCall {
+	/** Tool name */
+	tool: string;
+	/** Arguments to pass */
+	arguments: Record<string, unknown>;
+	/** Why this call helps */
+	reason: string;
+}
+
+/**
+ * A domain that matches a task description.
+ */
+export interface DomainMatch {
+	/** Domain name */
+	domain: string;
+	/** Tool prefix used in tool and prompt names */
+	toolPrefix: string;
+	/** What the domain covers */
+	description: string;
+	/** Relevance score (higher is better) */
+	score: number;
+	/** Best-matching category ID, if any */
+	category?: string;
+	/** Checkpoint IDs most related to the task */
+	matchedCheckpoints: string[];
+	/** Tool calls to make next, most useful first */
+	recommendedCalls: RecommendedToolCall[];
+}
+
+/**
+ * Ranked domains for a task.
+ * Response format for find_expertise tool.
+ */
+export interface FindExpertiseResults {
+	/** The task as received */
+	task: string;
+	/** Best-matching domains first (empty if nothing matched) */
+	domains: DomainMatch[];
+}
+
+/**
+ * Formats expertise can be exported to, for assistants that don't use MCP.
+ */
+export const EXPORT_FORMATS = [
+	"claude-md",
+	"cursor-rules",
+	"skill",
+	"system-prompt",
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * A file written by an export.
+ */
+export interface ExportedFile {
+	/** Where to save it, relative to the project root (e.g. ".cursor/rules/readme.mdc") */
+	path: string;
+	content: string;
+}
+
+/**
+ * Expertise rendered as another assistant's rules.
+ * Response format for export_rules tool.
+ */
+export interface RulesExport {
+	/** Domain name */
+	domain: string;
+	format: ExportFormat;
+	/** Files to save; skills span several */
+	files: ExportedFile[];
+}
+
+/**
+ * A loaded domain as listed by get_capabilities.
+ */
+export interface DomainCapabilities {
+	/** Domain name */
+	domain: string;
+	/** Author or organization */
+	author: string;
+	/** What the domain covers */
+	description: string;
+	/** Tool prefix used in tool and prompt names */
+	toolPrefix: string;
+	/** Tools registered for the domain */
+	tools: string[];
+	/** Prompts registered for the domain */
+	prompts: string[];
+	/** Category IDs that tools accept */
+	categories?: string[];
+	/** Languages tools accept as locale (the default first) */
+	locales: string[];
+}
+
+/**
+ * A problem found in an expertise file, located in its YAML source when
+ * possible.
+ */
+export interface ExpertiseDiagnostic {
+	severity: "error" | "warning";
+	/** What raised it: "yaml", "schema", "extends", "version", or a lint rule ID */
+	rule: string;
+	message: string;
+	/** Path in the expertise content (e.g. ["checkpoints", 3, "purpose"]) */
+	path?: (string | number)[];
+	/** Position in the file (1-based) */
+	line?: number;
+	column?: number;
+	endLine?: number;
+	endColumn?: number;
+}
+
+/**
+ * Everything this server offers.
+ * Response format for get_capabilities tool.
+ */
+export interface Capabilities {
+	/** Loaded domains */
+	domains: DomainCapabilities[];
+	/** How user content is handled */
+	privacyStatement: string;
+	/** Files that failed validation and were skipped */
+	diagnostics?: Array<{
+		file: string;
+		/** Summary of the first few issues */
+		error: string;
+		/** Every issue, with its line and column */
+		issues: ExpertiseDiagnostic[];
+	}>;
 }
 
 // ============================================================================
 // Zod Schemas for Validation
 // ============================================================================
 
+/**
+ * Current expertise schema version. Files written for an older version are
+ * migrated to it when loaded (see migrations.ts).
+ */
+export const SCHEMA_VERSION = "1.2.0";
+
+// BCP 47 language tags, e.g. "en", "de", "pt-BR"
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
 export const ExpertiseMetaSchema = z.object({
 	domain: z.string().min(1, "Domain name is required"),
 	author: z.string().min(1, "Author is required"),
@@ -249,6 +674,10 @@ export const ExpertiseMetaSchema = z.object({
 			"Tool prefix must be lowercase alphanumeric with underscores, starting with a letter",
 		),
 	privacyStatement: z.string().optional(),
+	locale: z.string().regex(LOCALE_PATTERN, "Invalid locale tag").optional(),
+	locales: z
+		.array(z.string().regex(LOCALE_PATTERN, "Invalid locale tag"))
+		.optional(),
 });
 
 export const PrincipleSchema = z.object({
@@ -275,6 +704,7 @@ export const CheckpointSchema = z.object({
 	clarifyingQuestions: z.array(z.string()).optional(),
 	exampleGood: z.string().optional(),
 	examplePoor: z.string().optional(),
+	categories: z.array(z.string().min(1)).optional(),
 });
 
 export const CategorySchema = z.object({
@@ -296,6 +726,7 @@ export const QualityCheckCategorySchema = z.object({
 			explanation: z.string().optional(),
 		}),
 	),
+	categories: z.array(z.string().min(1)).optional(),
 });
 
 export const QualityChecksSchema = z.record(
@@ -317,19 +748,411 @@ export const RequirementSchema = z.object({
 	caveats: z.array(z.string()).optional(),
 });
 
-export const ExpertiseContentSchema = z.object({
-	version: z.string().min(1),
-	meta: ExpertiseMetaSchema,
-	principles: z.array(PrincipleSchema).min(1, "At least one principle required"),
-	checkpoints: z
-		.array(CheckpointSchema)
-		.min(1, "At least one checkpoint required"),
+export const RubricLevelSchema = z.object({
+	score: z.number(),
+	label: z.string().min(1),
+	description: z.string().min(1),
+});
+
+export const RubricScaleSchema = z
+	.object({
+		min: z.number(),
+		max: z.number(),
+		step: z.number().positive().optional(),
+		levels: z.array(RubricLevelSchema).optional(),
+	})
+	.refine((scale) => scale.max > scale.min, {
+		message: "Scale max must be greater than min",
+		path: ["max"],
+	});
+
+export const RubricCriterionSchema = z
+	.object({
+		checkpoint: z.string().min(1).optional(),
+		qualityCheck: z.string().min(1).optional(),
+		weight: z.number().positive().optional(),
+		minimum: z.number().optional(),
+		levels: z.array(RubricLevelSchema).optional(),
+	})
+	.refine(
+		(c) => (c.checkpoint === undefined) !== (c.qualityCheck === undefined),
+		{
+			message: "Set exactly one of checkpoint or qualityCheck",
+		},
+	);
+
+export const RubricSchema = z.object({
+	description: z.string().optional(),
+	scale: RubricScaleSchema,
+	criteria: z
+		.array(RubricCriterionSchema)
+		.min(1, "At least one criterion required"),
+	passThreshold: z.number().optional(),
+});
+
+export const ExtendsSchema = z.array(
+	z.string().regex(/\.yaml$/, "extends must list .yaml filenames"),
+);
+
+export const ExpertiseContentSchema = z
+	.object({
+		version: z.literal(SCHEMA_VERSION, {
+			error: `Schema version must be "${SCHEMA_VERSION}"`,
+		}),
+		extends: ExtendsSchema.optional(),
+		meta: ExpertiseMetaSchema,
+		principles: z
+			.array(PrincipleSchema)
+			.min(1, "At least one principle required"),
+		checkpoints: z
+			.array(CheckpointSchema)
+			.min(1, "At least one checkpoint required"),
+		categories: z.array(CategorySchema).optional(),
+		qualityChecks: QualityChecksSchema.optional(),
+		reviewGuidance: ReviewGuidanceSchema,
+		requirements: z.array(RequirementSchema).optional(),
+		rubric: RubricSchema.optional(),
+	})
+	.superRefine((content, ctx) => {
+		// Translations are for languages other than the file's own
+		const locale = getLocale(content.meta);
+		content.meta.locales?.forEach((l, i) => {
+			if (l === locale) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["meta", "locales", i],
+					message: `"${l}" is the file's own locale`,
+				});
+			}
+		});
+
+		// Category references must point at a defined category
+		const categoryIds = new Set((content.categories ?? []).map((c) => c.id));
+		const checkRefs = (
+			refs: string[] | undefined,
+			path: (string | number)[],
+		) => {
+			refs?.forEach((id, i) => {
+				if (!categoryIds.has(id)) {
+					ctx.addIssue({
+						code: "custom",
+						path: [...path, "categories", i],
+						message: `Unknown category "${id}"`,
+					});
+				}
+			});
+		};
+		content.checkpoints.forEach((cp, i) => {
+			checkRefs(cp.categories, ["checkpoints", i]);
+		});
+		for (const [key, check] of Object.entries(content.qualityChecks ?? {})) {
+			checkRefs(check.categories, ["qualityChecks", key]);
+		}
+
+		// Rubric criteria must point at defined checkpoints/quality checks,
+		// and every score must lie on the scale
+		if (content.rubric) {
+			const { scale, criteria, passThreshold } = content.rubric;
+			const checkpointIds = new Set(content.checkpoints.map((cp) => cp.id));
+			const checkScore = (score: number, path: (string | number)[]) => {
+				if (score < scale.min || score > scale.max) {
+					ctx.addIssue({
+						code: "custom",
+						path: ["rubric", ...path],
+						message: `Score ${score} is outside the scale (${scale.min}-${scale.max})`,
+					});
+				}
+			};
+			scale.levels?.forEach((level, i) => {
+				checkScore(level.score, ["scale", "levels", i, "score"]);
+			});
+			if (passThreshold !== undefined) {
+				checkScore(passThreshold, ["passThreshold"]);
+			}
+
+			const seen = new Set<string>();
+			criteria.forEach((criterion, i) => {
+				if (criterion.checkpoint && !checkpointIds.has(criterion.checkpoint)) {
+					ctx.addIssue({
+						code: "custom",
+						path: ["rubric", "criteria", i, "checkpoint"],
+						message: `Unknown checkpoint "${criterion.checkpoint}"`,
+					});
+				}
+				if (
+					criterion.qualityCheck &&
+					!content.qualityChecks?.[criterion.qualityCheck]
+				) {
+					ctx.addIssue({
+						code: "custom",
+						path: ["rubric", "criteria", i, "qualityCheck"],
+						message: `Unknown quality check "${criterion.qualityCheck}"`,
+					});
+				}
+				const key = `${criterion.checkpoint ?? ""}|${criterion.qualityCheck ?? ""}`;
+				if (seen.has(key)) {
+					ctx.addIssue({
+						code: "custom",
+						path: ["rubric", "criteria", i],
+						message: "Duplicate rubric criterion",
+					});
+				}
+				seen.add(key);
+				if (criterion.minimum !== undefined) {
+					checkScore(criterion.minimum, ["criteria", i, "minimum"]);
+				}
+				criterion.levels?.forEach((level, j) => {
+					checkScore(level.score, ["criteria", i, "levels", j, "score"]);
+				});
+			});
+		}
+	});
+
+/**
+ * A file another file extends. Every part is optional, since fragments only
+ * hold what they share; items must still be complete, as overrides replace
+ * whole items.
+ */
+export const ExpertiseFragmentSchema = z.object({
+	version: z.string().min(1).optional(),
+	extends: ExtendsSchema.optional(),
+	meta: ExpertiseMetaSchema.partial().optional(),
+	principles: z.array(PrincipleSchema).optional(),
+	checkpoints: z.array(CheckpointSchema).optional(),
 	categories: z.array(CategorySchema).optional(),
 	qualityChecks: QualityChecksSchema.optional(),
-	reviewGuidance: ReviewGuidanceSchema,
+	reviewGuidance: ReviewGuidanceSchema.partial().optional(),
 	requirements: z.array(RequirementSchema).optional(),
+	rubric: RubricSchema.optional(),
 });
 
+/**
+ * A translation file. Every part is optional; translated items are merged
+ * field by field over the originals.
+ */
+export const ExpertiseTranslationSchema = z.object({
+	version: z.string().min(1).optional(),
+	meta: ExpertiseMetaSchema.pick({
+		domain: true,
+		description: true,
+		privacyStatement: true,
+	})
+		.partial()
+		.optional(),
+	principles: z.record(z.string(), PrincipleSchema.partial()).optional(),
+	checkpoints: z
+		.record(
+			z.string(),
+			CheckpointSchema.omit({ id: true, categories: true }).partial(),
+		)
+		.optional(),
+	categories: z
+		.record(z.string(), CategorySchema.omit({ id: true }).partial())
+		.optional(),
+	qualityChecks: z
+		.record(
+			z.string(),
+			QualityCheckCategorySchema.omit({ categories: true }).partial(),
+		)
+		.optional(),
+	reviewGuidance: ReviewGuidanceSchema.partial().optional(),
+	requirements: z.record(z.string(), RequirementSchema.partial()).optional(),
+}) satisfies z.ZodType<ExpertiseTranslation>;
+
+// ============================================================================
+// Zod Schemas for Tool Output
+// Published as MCP output schemas so clients can validate structuredContent
+// ============================================================================
+
+const ContextMetaSchema = z.object({
+	domain: z.string(),
+	author: z.string(),
+	license: z.string().optional(),
+	privacyStatement: z.string(),
+	locale: z.string(),
+});
+
+const BudgetReportSchema = z.object({
+	maxTokens: z.number(),
+	estimatedTokens: z.number(),
+	truncated: z.boolean(),
+	omitted: z.array(
+		z.object({
+			section: z.string(),
+			ids: z.array(z.string()),
+			fetch: z.array(
+				z.object({
+					uri: z.string().optional(),
+					tool: z.string().optional(),
+					arguments: z.record(z.string(), z.unknown()).optional(),
+				}),
+			),
+		}),
+	),
+});
+
+const PageInfoSchema = z.object({
+	pageSize: z.number(),
+	sections: z.array(
+		z.object({
+			section: z.string(),
+			offset: z.number(),
+			count: z.number(),
+			total: z.number(),
+		}),
+	),
+	nextCursor: z.string().optional(),
+});
+
+// Responses used to carry a fixed "1.0.0" here; say what it means now
+const CONTEXT_VERSION_DESCRIPTION =
+	'Schema version of the expertise file the response was built from (always the current schema version, since files are migrated on load). Before schema versioning this was a fixed "1.0.0".';
+
+export const ExpertiseContextSchema = z.object({
+	version: z.string().describe(CONTEXT_VERSION_DESCRIPTION),
+	generated: z.string(),
+	meta: ContextMetaSchema.extend({ infoUrl: z.string().optional() }),
+	instructions: z.string(),
+	completeness: z
+		.object({
+			assessmentGuidance: z.string(),
+			checkpoints: z.array(CheckpointSchema),
+		})
+		.optional(),
+	categories: z.array(CategorySchema).optional(),
+	principles: z.array(PrincipleSchema).optional(),
+	qualityChecks: QualityChecksSchema.optional(),
+	requirements: z.array(RequirementSchema).optional(),
+	budget: BudgetReportSchema.optional(),
+	page: PageInfoSchema.optional(),
+}) satisfies z.ZodType<ExpertiseContext>;
+
+export const ReviewContextSchema = z.object({
+	version: z.string().describe(CONTEXT_VERSION_DESCRIPTION),
+	generated: z.string(),
+	meta: ContextMetaSchema,
+	reviewInstructions: z.string(),
+	category: CategorySchema.optional(),
+	feedbackGuidance: ReviewGuidanceSchema,
+	checkpoints: z.array(CheckpointSchema).optional(),
+	qualityChecks: QualityChecksSchema.optional(),
+	principles: z.array(PrincipleSchema).optional(),
+	budget: BudgetReportSchema.optional(),
+	page: PageInfoSchema.optional(),
+}) satisfies z.ZodType<ReviewContext>;
+
+export const RubricContextSchema = z.object({
+	version: z.string().describe(CONTEXT_VERSION_DESCRIPTION),
+	generated: z.string(),
+	meta: ContextMetaSchema,
+	scoringInstructions: z.string(),
+	description: z.string().optional(),
+	category: z.string().optional(),
+	scale: z.object({
+		min: z.number(),
+		max: z.number(),
+		step: z.number(),
+		levels: z.array(RubricLevelSchema).optional(),
+	}),
+	criteria: z.array(
+		z.object({
+			id: z.string(),
+			kind: z.enum(["checkpoint", "qualityCheck"]),
+			name: z.string(),
+			description: z.string(),
+			weight: z.number(),
+			normalizedWeight: z.number(),
+			minimum: z.number().optional(),
+			levels: z.array(RubricLevelSchema).optional(),
+		}),
+	),
+	aggregation: z.object({
+		method: z.literal("weighted_mean"),
+		formula: z.string(),
+		passThreshold: z.number().optional(),
+		passRule: z.string(),
+	}),
+}) satisfies z.ZodType<RubricContext>;
+
+export const SearchResultsSchema = z.object({
+	query: z.string(),
+	total: z.number(),
+	hits: z.array(
+		z.object({
+			section: z.enum(SEARCH_SECTIONS),
+			id: z.string(),
+			name: z.string(),
+			path: z.string(),
+			text: z.string(),
+			score: z.number(),
+			uri: z.string().optional(),
+		}),
+	),
+}) satisfies z.ZodType<SearchResults>;
+
+export const FindExpertiseResultsSchema = z.object({
+	task: z.string(),
+	domains: z.array(
+		z.object({
+			domain: z.string(),
+			toolPrefix: z.string(),
+			description: z.string(),
+			score: z.number(),
+			category: z.string().optional(),
+			matchedCheckpoints: z.array(z.string()),
+			recommendedCalls: z.array(
+				z.object({
+					tool: z.string(),
+					arguments: z.record(z.string(), z.unknown()),
+					reason: z.string(),
+				}),
+			),
+		}),
+	),
+}) satisfies z.ZodType<FindExpertiseResults>;
+
+export const RulesExportSchema = z.object({
+	domain: z.string(),
+	format: z.enum(EXPORT_FORMATS),
+	files: z.array(z.object({ path: z.string(), content: z.string() })),
+}) satisfies z.ZodType<RulesExport>;
+
+export const ExpertiseDiagnosticSchema = z.object({
+	severity: z.enum(["error", "warning"]),
+	rule: z.string(),
+	message: z.string(),
+	path: z.array(z.union([z.string(), z.number()])).optional(),
+	line: z.number().optional(),
+	column: z.number().optional(),
+	endLine: z.number().optional(),
+	endColumn: z.number().optional(),
+}) satisfies z.ZodType<ExpertiseDiagnostic>;
+
+export const CapabilitiesSchema = z.object({
+	domains: z.array(
+		z.object({
+			domain: z.string(),
+			author: z.string(),
+			description: z.string(),
+			toolPrefix: z.string(),
+			tools: z.array(z.string()),
+			prompts: z.array(z.string()),
+			categories: z.array(z.string()).optional(),
+			locales: z.array(z.string()),
+		}),
+	),
+	privacyStatement: z.string(),
+	diagnostics: z
+		.array(
+			z.object({
+				file: z.string(),
+				error: z.string(),
+				issues: z.array(ExpertiseDiagnosticSchema),
+			}),
+		)
+		.optional(),
+}) satisfies z.ZodType<Capabilities>;
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -341,6 +1164,43 @@ export function getToolPrefix(meta: ExpertiseMeta): string {
 	return meta.toolPrefix;
 }
 
+/**
+ * Default language of expertise files that don't set meta.locale.
+ */
+export const DEFAULT_LOCALE = "en";
+
+/**
+ * Language an expertise file (or its translation) is written in.
+ */
+export function getLocale(meta: ExpertiseMeta): string {
+	return meta.locale ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Languages a domain is available in, its own first.
+ */
+export function getLocales(meta: ExpertiseMeta): string[] {
+	return [meta.locale ?? DEFAULT_LOCALE, ...(meta.locales ?? [])];
+}
+
+/**
+ * Build a stable resource URI for a domain (e.g. expertise://readme/principles).
+ */
+export function resourceUri(prefix: string, path: string): string {
+	return `expertise://${prefix}/${path}`;
+}
+
+/**
+ * Check whether a checkpoint or quality check applies to a category.
+ * Items without a category list apply to every category.
+ */
+export function appliesToCategory(
+	item: { categories?: string[] },
+	category: string | undefined,
+): boolean {
+	return !category || !item.categories || item.categories.includes(category);
+}
+
 /**
  * Default privacy statement if not provided.
  */